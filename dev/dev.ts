@@ -51,6 +51,7 @@ const gestureManager = new GestureManager({
       name: 'tap',
       taps: 1,
       preventIf: ['press'],
+      requireFailureOf: ['doubleTap'], // Wait for the double tap to fail before firing
     }),
     new TapGesture({
       name: 'doubleTap',
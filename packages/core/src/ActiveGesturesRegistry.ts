@@ -3,9 +3,10 @@
  *
  * This singleton class keeps track of all gesture instances that are currently in their active state,
  * allowing both the system and applications to query which gestures are active on specific elements.
+ * Virtual targets are tracked like elements, so each one has its own active gestures.
  */
 
-import { Gesture } from './Gesture';
+import { Gesture, GestureRecognizerState } from './Gesture';
 import { TargetElement } from './types/TargetElement';
 
 /**
@@ -18,6 +19,15 @@ export type ActiveGestureEntry<GestureName extends string> = {
   element: TargetElement;
 };
 
+/**
+ * Listener notified whenever a gesture changes its recognizer state
+ */
+export type GestureStateChangeListener = (
+  element: TargetElement,
+  gesture: Gesture<string>,
+  state: GestureRecognizerState
+) => void;
+
 /**
  * Registry that maintains a record of all currently active gestures across elements
  */
@@ -25,6 +35,9 @@ export class ActiveGesturesRegistry<GestureName extends string> {
   /** Map of elements to their active gestures */
   private activeGestures: Map<TargetElement, Set<ActiveGestureEntry<GestureName>>> = new Map();
 
+  /** Set of listeners notified when a gesture changes its recognizer state */
+  private stateChangeListeners: Set<GestureStateChangeListener> = new Set();
+
   /**
    * Register a gesture as active on an element
    *
@@ -87,6 +100,19 @@ export class ActiveGesturesRegistry<GestureName extends string> {
     );
   }
 
+  /**
+   * Get the instances of all active gestures for a specific element
+   *
+   * @param element - The DOM element to query
+   * @returns Array of active gesture instances
+   */
+  public getActiveGestureInstances(element: TargetElement): Gesture<GestureName>[] {
+    const elementGestures = this.activeGestures.get(element);
+    if (!elementGestures) return [];
+
+    return Array.from(elementGestures).map(entry => entry.gesture);
+  }
+
   /**
    * Check if a specific gesture is active on an element
    *
@@ -100,11 +126,41 @@ export class ActiveGesturesRegistry<GestureName extends string> {
     return Array.from(elementGestures).some(entry => entry.gesture === gesture);
   }
 
+  /**
+   * Register a listener to be notified when a gesture changes its recognizer state
+   *
+   * @param listener - Function called with the element, gesture and new state
+   * @returns An unregister function that removes this listener when called
+   */
+  public addStateChangeListener(listener: GestureStateChangeListener): () => void {
+    this.stateChangeListeners.add(listener);
+
+    return () => {
+      this.stateChangeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify all listeners that a gesture changed its recognizer state
+   *
+   * @param element - The DOM element the gesture is attached to
+   * @param gesture - The gesture instance whose state changed
+   * @param state - The new recognizer state
+   */
+  public notifyStateChange(
+    element: TargetElement,
+    gesture: Gesture<GestureName>,
+    state: GestureRecognizerState
+  ): void {
+    this.stateChangeListeners.forEach(listener => listener(element, gesture, state));
+  }
+
   /**
    * Clear all active gestures from the registry
    */
   public destroy(): void {
     this.activeGestures.clear();
+    this.stateChangeListeners.clear();
   }
 
   /**
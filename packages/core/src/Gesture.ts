@@ -3,9 +3,19 @@
  */
 
 import { ActiveGesturesRegistry } from './ActiveGesturesRegistry';
+import { GestureEventBatcher } from './GestureEventBatcher';
 import { PointerData, PointerManager } from './PointerManager';
+import { CoordinateSpaces, CoordinateTransform } from './types/CoordinateSpaces';
 import { CustomEventListener } from './types/CustomEventListener';
 import { TargetElement } from './types/TargetElement';
+import {
+  getCoordinateTransforms,
+  getModifiers,
+  isWithinElement,
+  mapCoordinateSpaces,
+  transformPoint,
+} from './utils';
+import { VirtualTarget } from './VirtualTarget';
 
 /**
  * The possible phases of a gesture during its lifecycle.
@@ -17,6 +27,45 @@ import { TargetElement } from './types/TargetElement';
  */
 export type GesturePhase = 'start' | 'ongoing' | 'end' | 'cancel';
 
+/**
+ * The possible states of a gesture recognizer, used by the GestureManager to arbitrate
+ * between gestures registered on the same element.
+ *
+ * - 'possible': The gesture is waiting for input or tracking pointers but hasn't been recognized yet
+ * - 'began': The gesture has been recognized and emitted its start event
+ * - 'changed': The gesture is in progress and emitting ongoing events
+ * - 'recognized': The gesture has completed successfully
+ * - 'failed': The gesture could not be recognized, or lost to a competing gesture
+ * - 'cancelled': The gesture was in progress and has been interrupted
+ */
+export type GestureRecognizerState =
+  | 'possible'
+  | 'began'
+  | 'changed'
+  | 'recognized'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * A touch gesture handled natively by the browser, which the `touch-action` CSS property of an
+ * element can disable
+ */
+export type BrowserTouchGesture = 'pan-x' | 'pan-y' | 'pinch-zoom' | 'double-tap-zoom';
+
+/**
+ * State of the keyboard modifier keys
+ */
+export type GestureModifiers = {
+  /** Whether the Shift key is pressed */
+  shift: boolean;
+  /** Whether the Control key is pressed */
+  ctrl: boolean;
+  /** Whether the Alt (Option) key is pressed */
+  alt: boolean;
+  /** Whether the Meta (Command or Windows) key is pressed */
+  meta: boolean;
+};
+
 /**
  * Core data structure passed to gesture event handlers.
  * Contains all relevant information about a gesture event.
@@ -27,10 +76,16 @@ export type GestureEventData<CustomData extends Record<string, unknown> = Record
     gestureName: string;
     /** The centroid of all active pointers involved in the gesture */
     centroid: { x: number; y: number };
+    /** The centroid in the local, normalized and SVG coordinate spaces of the element */
+    coordinates: CoordinateSpaces<{ x: number; y: number }>;
     /** The target element of the original event */
     target: EventTarget | null;
+    /** The id of the virtual target under the pointers, null when not over a virtual target */
+    targetId: string | null;
     /** The original event that triggered this gesture */
     srcEvent: Event;
+    /** The state of the keyboard modifier keys during the original event */
+    modifiers: GestureModifiers;
     /** The current phase of the gesture */
     phase: GesturePhase;
     /** Array of all active pointers involved in the gesture */
@@ -49,7 +104,11 @@ export type GestureEventData<CustomData extends Record<string, unknown> = Record
 export type GestureOptions<GestureName extends string> = {
   /** Unique name identifying this gesture type */
   name: GestureName;
-  /** Whether to prevent default browser action for gesture events */
+  /**
+   * Whether to prevent default browser action for gesture events.
+   * For pointer gestures, this also blocks the native scrolling and zooming with the pointers
+   * once the gesture is recognized. Until then, the browser is free to scroll.
+   */
   preventDefault?: boolean;
   /** Whether to stop propagation of gesture events */
   stopPropagation?: boolean;
@@ -58,13 +117,55 @@ export type GestureOptions<GestureName extends string> = {
    * List of gesture names that should prevent this gesture from activating when they are active.
    * If any of these gestures are active, this gesture will not be recognized.
    *
-   * This only works when the gestures in the array have phases. Because `TurnWheel` and `Tap`
-   * gestures are single-phase, they will not be able to prevent other gestures.
+   * When one of these gestures is recognized on the same element, the GestureManager fails this
+   * gesture, cancelling it if it was in progress. It stays failed until its pointers are released.
    *
    * @example ['pan', 'pinch']
    * @default [] (no prevented gestures)
    */
   preventIf?: string[];
+  /**
+   * List of gesture names that must fail on the same element before this gesture is recognized.
+   * The recognition is deferred until all of them have failed or timed out, and dropped if any
+   * of them is recognized instead. The deferred event keeps its original source event.
+   *
+   * The `Tap`, `Swipe` and `Press` gestures, and the single-phase gestures created with
+   * `defineGesture()`, defer their recognition. Gestures following the pointers as they move,
+   * like `Pan`, ignore this option.
+   *
+   * @example ['doubleTap']
+   * @default [] (no required failures)
+   */
+  requireFailureOf?: string[];
+  /**
+   * Whether this gesture is exclusive on its element. When an exclusive gesture starts, it cancels
+   * every active gesture on the same element that isn't listed in `simultaneousWith`, and those
+   * gestures can't start while it is in progress. Gestures starting after an exclusive gesture,
+   * even exclusive ones, never cancel it.
+   *
+   * @default false
+   */
+  exclusive?: boolean;
+  /**
+   * List of gesture names that are allowed to be active at the same time as this gesture,
+   * when this gesture is exclusive.
+   *
+   * @example ['pinch', 'rotate']
+   * @default [] (no simultaneous gestures)
+   */
+  simultaneousWith?: string[];
+  /**
+   * Keyboard modifier keys required to recognize this gesture. `true` requires the key to be
+   * pressed, `false` requires it to be released, and the omitted keys are ignored.
+   *
+   * Only the `Pan`, `Swipe`, `EdgeSwipe`, `Tap`, `Press`, `PressAndDrag` and `TurnWheel`
+   * gestures check this option. Pointer gestures check the keys when the pointers go down,
+   * so they can be released during the gesture.
+   *
+   * @example { shift: true } // shift+drag, while `{ shift: false }` only allows plain drags
+   * @default {} (no required modifiers)
+   */
+  modifiers?: Partial<GestureModifiers>;
 };
 
 declare const _privateKey: unique symbol;
@@ -122,6 +223,26 @@ export abstract class Gesture<GestureName extends string> {
    */
   protected preventIf: string[];
 
+  /**
+   * List of gesture names that must fail before this gesture is recognized.
+   */
+  protected requireFailureOf: string[];
+
+  /**
+   * Whether this gesture cancels and blocks the gestures not listed in `simultaneousWith`.
+   */
+  protected exclusive: boolean;
+
+  /**
+   * List of gesture names allowed to be active at the same time as this exclusive gesture.
+   */
+  protected simultaneousWith: string[];
+
+  /**
+   * Keyboard modifier keys required to recognize this gesture.
+   */
+  protected modifiers: Partial<GestureModifiers>;
+
   /**
    * User-mutable data object for sharing state between gesture events
    * This object is included in all events emitted by this gesture
@@ -134,12 +255,24 @@ export abstract class Gesture<GestureName extends string> {
   /** Reference to the singleton ActiveGesturesRegistry instance */
   protected gesturesRegistry!: ActiveGesturesRegistry<GestureName>;
 
+  /** Dispatcher of the gesture events of the GestureManager, null to dispatch them directly */
+  protected eventBatcher: GestureEventBatcher | null = null;
+
   /** The DOM element this gesture is attached to */
   protected element!: HTMLElement;
 
   /** Stores the active gesture state */
   protected abstract state: GestureState;
 
+  /** The current state of the recognizer, used to arbitrate between gestures */
+  protected recognizerState: GestureRecognizerState = 'possible';
+
+  /** Recognitions waiting for the gestures in `requireFailureOf` to fail */
+  private pendingRecognitions: Array<() => void> = [];
+
+  /** The coordinate transforms of the gesture in progress, computed when it started */
+  private coordinateTransforms: CoordinateSpaces<CoordinateTransform> | null = null;
+
   /** @internal For types. If false enables phases (xStart, x, xEnd) */
   protected abstract readonly isSinglePhase: boolean;
 
@@ -165,6 +298,10 @@ export abstract class Gesture<GestureName extends string> {
     this.preventDefault = options.preventDefault ?? false;
     this.stopPropagation = options.stopPropagation ?? false;
     this.preventIf = options.preventIf ?? [];
+    this.requireFailureOf = options.requireFailureOf ?? [];
+    this.exclusive = options.exclusive ?? false;
+    this.simultaneousWith = options.simultaneousWith ?? [];
+    this.modifiers = options.modifiers ?? {};
   }
 
   /**
@@ -174,11 +311,13 @@ export abstract class Gesture<GestureName extends string> {
   public init(
     element: TargetElement,
     pointerManager: PointerManager,
-    gestureRegistry: ActiveGesturesRegistry<GestureName>
+    gestureRegistry: ActiveGesturesRegistry<GestureName>,
+    eventBatcher?: GestureEventBatcher
   ): void {
     this.element = element as HTMLElement;
     this.pointerManager = pointerManager;
     this.gesturesRegistry = gestureRegistry;
+    this.eventBatcher = eventBatcher ?? null;
 
     const changeOptionsEventName = `${this.name}ChangeOptions`;
     (this.element as CustomEventListener).addEventListener(
@@ -212,6 +351,10 @@ export abstract class Gesture<GestureName extends string> {
     this.preventDefault = options.preventDefault ?? this.preventDefault;
     this.stopPropagation = options.stopPropagation ?? this.stopPropagation;
     this.preventIf = options.preventIf ?? this.preventIf;
+    this.requireFailureOf = options.requireFailureOf ?? this.requireFailureOf;
+    this.exclusive = options.exclusive ?? this.exclusive;
+    this.simultaneousWith = options.simultaneousWith ?? this.simultaneousWith;
+    this.modifiers = options.modifiers ?? this.modifiers;
   }
 
   /**
@@ -234,6 +377,24 @@ export abstract class Gesture<GestureName extends string> {
     Object.assign(this.state, stateChanges);
   }
 
+  /**
+   * Get the current options of this gesture, including the changes made at runtime
+   *
+   * @returns A copy of the options that can be used to create an identical gesture
+   */
+  public getOptions(): GestureOptions<GestureName> {
+    return {
+      name: this.name,
+      preventDefault: this.preventDefault,
+      stopPropagation: this.stopPropagation,
+      preventIf: [...this.preventIf],
+      requireFailureOf: [...this.requireFailureOf],
+      exclusive: this.exclusive,
+      simultaneousWith: [...this.simultaneousWith],
+      modifiers: { ...this.modifiers },
+    };
+  }
+
   /**
    * Create a deep clone of this gesture for a new element
    *
@@ -249,16 +410,83 @@ export abstract class Gesture<GestureName extends string> {
    * @returns The matching element or null if no match is found
    */
   protected getTargetElement(event: Event): TargetElement | null {
-    if (
-      this.isActive ||
-      this.element === event.target ||
-      this.element.contains(event.target as Node)
-    ) {
+    // Gestures on virtual targets are routed through the hit test instead of the DOM target
+    const target =
+      this.element instanceof VirtualTarget
+        ? this.pointerManager.getVirtualTarget(event)
+        : event.target;
+
+    // The composed path reaches the elements inside shadow trees, which the target doesn't
+    const composedPath = this.element instanceof VirtualTarget ? [] : event.composedPath();
+
+    if (this.isActive || isWithinElement(this.element, target, composedPath)) {
       return this.element;
     }
     return null;
   }
 
+  /**
+   * Get the transforms from viewport coordinates to the coordinate spaces of the element.
+   * Gestures on virtual targets use the element rendering them.
+   *
+   * The transforms are computed when the gesture starts and kept until it ends, so the events
+   * of a gesture share the same spaces even if the element moves with the gesture.
+   *
+   * @returns The transform of each coordinate space
+   */
+  protected getCoordinateTransforms(): CoordinateSpaces<CoordinateTransform> {
+    const inProgress = this.recognizerState === 'began' || this.recognizerState === 'changed';
+    if (inProgress && this.coordinateTransforms) {
+      return this.coordinateTransforms;
+    }
+
+    const element =
+      this.element instanceof VirtualTarget
+        ? this.pointerManager.getHitTestElement(this.element)
+        : this.element;
+
+    this.coordinateTransforms = getCoordinateTransforms(element);
+    return this.coordinateTransforms;
+  }
+
+  /**
+   * Convert a point from viewport coordinates to the coordinate spaces of the element
+   *
+   * @param point - The point in viewport coordinates, like the centroid
+   * @param transforms - The transforms of the coordinate spaces, computed when omitted
+   * @returns The point in each coordinate space
+   */
+  protected getCoordinates(
+    point: { x: number; y: number },
+    transforms: CoordinateSpaces<CoordinateTransform> = this.getCoordinateTransforms()
+  ): CoordinateSpaces<{ x: number; y: number }> {
+    return mapCoordinateSpaces(transforms, transform => transformPoint(transform, point));
+  }
+
+  /**
+   * Check if the keyboard modifier keys pressed during an event match the `modifiers` option
+   *
+   * @param event - The browser event
+   * @returns true if every required modifier key is in the required state, false otherwise
+   */
+  protected matchesModifiers(event: Event): boolean {
+    const modifiers = getModifiers(event);
+
+    return (Object.keys(this.modifiers) as Array<keyof GestureModifiers>).every(
+      key => this.modifiers[key] === undefined || this.modifiers[key] === modifiers[key]
+    );
+  }
+
+  /**
+   * Get the id of the virtual target of an event, to include in the gesture events
+   *
+   * @param event - The browser event
+   * @returns The id of the virtual target, or null if the event isn't over a virtual target
+   */
+  protected getTargetId(event: Event): string | null {
+    return this.pointerManager.getVirtualTarget(event)?.id ?? null;
+  }
+
   /** Whether the gesture is currently active */
   set isActive(isActive: boolean) {
     if (isActive) {
@@ -273,6 +501,191 @@ export abstract class Gesture<GestureName extends string> {
     return this.gesturesRegistry.isGestureActive(this.element, this) ?? false;
   }
 
+  /**
+   * Get the current state of the recognizer
+   *
+   * @returns The recognizer state of this gesture
+   */
+  public getRecognizerState(): GestureRecognizerState {
+    return this.recognizerState;
+  }
+
+  /**
+   * Update the recognizer state and notify the gestures registry of the change
+   *
+   * @param state - The new recognizer state
+   */
+  protected setRecognizerState(state: GestureRecognizerState): void {
+    if (this.recognizerState === state) return;
+
+    this.recognizerState = state;
+    this.gesturesRegistry.notifyStateChange(this.element, this, state);
+  }
+
+  /**
+   * Update the recognizer state based on the phase of the event about to be emitted
+   *
+   * @param phase - The phase of the gesture event
+   */
+  protected updateRecognizerState(phase: GesturePhase): void {
+    if (phase === 'start') {
+      this.setRecognizerState('began');
+    } else if (phase === 'ongoing') {
+      this.setRecognizerState('changed');
+    } else if (phase === 'cancel') {
+      this.setRecognizerState('cancelled');
+    } else if (this.recognizerState !== 'cancelled') {
+      // An end event after a cancel event doesn't mean the gesture was recognized
+      this.setRecognizerState('recognized');
+    }
+  }
+
+  /**
+   * Dispatch a gesture event on an element.
+   *
+   * With the 'frame' dispatch mode of the GestureManager, `ongoing` events are held until the
+   * next animation frame and merged with `mergeEventData`.
+   *
+   * @param element - The element to dispatch the event on
+   * @param event - The gesture event
+   */
+  protected dispatchGestureEvent(
+    element: TargetElement,
+    event: CustomEvent<GestureEventData>
+  ): void {
+    if (!this.eventBatcher) {
+      element.dispatchEvent(event);
+      return;
+    }
+
+    this.eventBatcher.dispatch(this, element, event, (previous, next) =>
+      this.mergeEventData(previous, next)
+    );
+  }
+
+  /**
+   * Merge the data of two consecutive `ongoing` events, held in the same animation frame.
+   *
+   * The merged event carries the data of the latest event. Gestures with values relative to
+   * the previous event, like deltas, should override this to accumulate them.
+   *
+   * @param previous - The data of the held event
+   * @param next - The data of the new event
+   * @returns The data of the merged event
+   */
+  protected mergeEventData(_previous: GestureEventData, next: GestureEventData): GestureEventData {
+    return next;
+  }
+
+  /**
+   * Fail the gesture. Called by the GestureManager when a competing gesture is recognized.
+   *
+   * Gestures that can be in progress should override this to cancel themselves first.
+   */
+  public fail(): void {
+    this.dropPendingRecognitions();
+    this.setRecognizerState('failed');
+  }
+
+  /**
+   * Recognize the gesture, or defer the recognition until every gesture in `requireFailureOf`
+   * has failed on the same element.
+   *
+   * @param recognize - Emits the gesture event, called once the recognition is allowed
+   */
+  protected requestRecognition(recognize: () => void): void {
+    if (this.requireFailureOf.length === 0) {
+      recognize();
+      return;
+    }
+
+    this.pendingRecognitions.push(recognize);
+
+    // Let the GestureManager check the required gestures straight away
+    this.gesturesRegistry.notifyStateChange(this.element, this, this.recognizerState);
+  }
+
+  /**
+   * Drop the recognitions waiting for the gestures in `requireFailureOf` to fail,
+   * when the interaction they belong to can't be recognized anymore
+   */
+  protected dropPendingRecognitions(): void {
+    this.pendingRecognitions = [];
+  }
+
+  /**
+   * Get the names of the gestures that must fail before this gesture is recognized
+   *
+   * @returns The list of gesture names from `requireFailureOf`
+   */
+  public getRequiredFailures(): string[] {
+    return this.requireFailureOf;
+  }
+
+  /**
+   * Whether the gesture has recognitions waiting for the gestures in `requireFailureOf` to fail
+   */
+  public hasPendingRecognition(): boolean {
+    return this.pendingRecognitions.length > 0;
+  }
+
+  /**
+   * Emit or drop the deferred recognitions. Called by the GestureManager once the gestures in
+   * `requireFailureOf` have either all failed or one of them was recognized.
+   *
+   * @param allowed - Whether the required gestures failed and the recognitions can be emitted
+   */
+  public resolvePendingRecognition(allowed: boolean): void {
+    const pendingRecognitions = this.pendingRecognitions;
+    this.pendingRecognitions = [];
+
+    if (allowed) {
+      pendingRecognitions.forEach(recognize => recognize());
+    } else {
+      this.fail();
+    }
+  }
+
+  /**
+   * Whether the gesture is tracking an interaction that could still lead to its recognition.
+   * Gestures waiting for this one to fail keep waiting while this is true.
+   *
+   * @returns true if the gesture could still be recognized, false otherwise
+   */
+  public isTracking(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Check if this gesture should fail when the given gesture is recognized
+   *
+   * @param gestureName - The name of the recognized gesture
+   * @returns true if the gesture lists it in `preventIf`, false otherwise
+   */
+  public isPreventedBy(gestureName: string): boolean {
+    return this.preventIf.includes(gestureName);
+  }
+
+  /**
+   * Check if this gesture allows the given gesture to be active at the same time
+   *
+   * @param gestureName - The name of the other gesture
+   * @returns true if this gesture isn't exclusive or lists it in `simultaneousWith`
+   */
+  public allowsSimultaneous(gestureName: string): boolean {
+    return !this.exclusive || this.simultaneousWith.includes(gestureName);
+  }
+
+  /**
+   * Get the browser touch gestures competing with this gesture, which the GestureManager
+   * disables with the `touch-action` CSS property of the elements the gesture is registered on
+   *
+   * @returns The browser touch gestures to disable, none by default
+   */
+  public getBlockedTouchGestures(): BrowserTouchGesture[] {
+    return [];
+  }
+
   /**
    * Checks if this gesture should be prevented from activating.
    *
@@ -280,6 +693,22 @@ export abstract class Gesture<GestureName extends string> {
    * @returns true if the gesture should be prevented, false otherwise
    */
   protected shouldPreventGesture(element: TargetElement): boolean {
+    // An exclusive gesture in progress blocks the gestures it doesn't run with,
+    // including the exclusive ones, which only take over the gestures started before them
+    const isExcluded = this.gesturesRegistry
+      .getActiveGestureInstances(element)
+      .some(
+        gesture =>
+          gesture !== this &&
+          (gesture.getRecognizerState() === 'began' ||
+            gesture.getRecognizerState() === 'changed') &&
+          !gesture.allowsSimultaneous(this.name)
+      );
+
+    if (isExcluded) {
+      return true;
+    }
+
     if (this.preventIf.length === 0) {
       return false; // No prevention rules, allow the gesture
     }
@@ -295,6 +724,9 @@ export abstract class Gesture<GestureName extends string> {
    * Call this method when the gesture is no longer needed to prevent memory leaks
    */
   public destroy(): void {
+    this.dropPendingRecognitions();
+    this.eventBatcher?.cancel(this);
+
     const changeOptionsEventName = `${this.name}ChangeOptions`;
     (this.element as CustomEventListener).removeEventListener(
       changeOptionsEventName,
@@ -0,0 +1,149 @@
+/**
+ * GestureEventBatcher - Dispatches the gesture events of the gestures of a GestureManager
+ *
+ * In the 'sync' dispatch mode, the events are dispatched as soon as the gestures emit them.
+ * In the 'frame' dispatch mode, the `ongoing` events are held until the next animation frame:
+ * 1. The `ongoing` events emitted by a gesture within a frame are merged into a single event
+ * 2. Any other event of the gesture dispatches its held `ongoing` event first, to keep the order
+ * 3. The held events are dispatched at the start of the next animation frame
+ */
+
+import type { Gesture, GestureEventData } from './Gesture';
+import { FrameScheduler } from './types/FrameScheduler';
+import { TargetElement } from './types/TargetElement';
+import { requestFrame } from './utils';
+
+/**
+ * How the gesture events are dispatched:
+ * - 'sync': Dispatch every event as soon as it is emitted
+ * - 'frame': Merge the `ongoing` events of each gesture and dispatch them once per animation frame
+ */
+export type GestureDispatchMode = 'sync' | 'frame';
+
+/**
+ * Function merging the data of two consecutive `ongoing` events of a gesture
+ */
+export type GestureEventMerger = (
+  previous: GestureEventData,
+  next: GestureEventData
+) => GestureEventData;
+
+/**
+ * An `ongoing` event held until the next animation frame
+ */
+type PendingEvent = {
+  /** The element to dispatch the event on */
+  element: TargetElement;
+  /** The event, with the merged data of the events held in the frame */
+  event: CustomEvent<GestureEventData>;
+};
+
+/**
+ * Dispatcher of the gesture events, which batches the `ongoing` events per animation frame
+ */
+export class GestureEventBatcher {
+  /** How the gesture events are dispatched */
+  private dispatchMode: GestureDispatchMode;
+
+  /** The `ongoing` events held until the next animation frame, by gesture */
+  private pendingEvents: Map<Gesture<string>, PendingEvent> = new Map();
+
+  /** Function scheduling the animation frames */
+  private frameScheduler: FrameScheduler;
+
+  /** Cancels the scheduled animation frame, null when no frame is scheduled */
+  private cancelFrame: (() => void) | null = null;
+
+  /**
+   * Create a new GestureEventBatcher
+   *
+   * @param dispatchMode - How the gesture events are dispatched
+   * @param frameScheduler - Function scheduling the animation frames
+   */
+  constructor(dispatchMode: GestureDispatchMode, frameScheduler: FrameScheduler = requestFrame) {
+    this.dispatchMode = dispatchMode;
+    this.frameScheduler = frameScheduler;
+  }
+
+  /**
+   * Dispatch a gesture event, or hold it until the next animation frame
+   *
+   * @param gesture - The gesture emitting the event
+   * @param element - The element to dispatch the event on
+   * @param event - The gesture event
+   * @param merge - Function merging the data of two consecutive `ongoing` events of the gesture
+   */
+  public dispatch(
+    gesture: Gesture<string>,
+    element: TargetElement,
+    event: CustomEvent<GestureEventData>,
+    merge: GestureEventMerger
+  ): void {
+    if (this.dispatchMode === 'sync') {
+      element.dispatchEvent(event);
+      return;
+    }
+
+    if (event.detail.phase !== 'ongoing') {
+      // Keep the order of the events of the gesture
+      this.flush(gesture);
+      element.dispatchEvent(event);
+      return;
+    }
+
+    const pending = this.pendingEvents.get(gesture);
+    if (pending && pending.element === element) {
+      pending.event = new CustomEvent(event.type, {
+        bubbles: event.bubbles,
+        cancelable: event.cancelable,
+        detail: merge(pending.event.detail, event.detail),
+      });
+      return;
+    }
+
+    this.flush(gesture);
+    this.pendingEvents.set(gesture, { element, event });
+
+    if (!this.cancelFrame) {
+      this.cancelFrame = this.frameScheduler(() => {
+        this.cancelFrame = null;
+        this.flush();
+      });
+    }
+  }
+
+  /**
+   * Dispatch the held events right away
+   *
+   * @param gesture - The gesture whose event should be dispatched, all gestures if omitted
+   */
+  public flush(gesture?: Gesture<string>): void {
+    const gestures = gesture ? [gesture] : Array.from(this.pendingEvents.keys());
+
+    gestures.forEach(key => {
+      const pending = this.pendingEvents.get(key);
+      if (!pending) return;
+
+      this.pendingEvents.delete(key);
+      pending.element.dispatchEvent(pending.event);
+    });
+  }
+
+  /**
+   * Drop the held event of a gesture, like when the gesture is destroyed
+   *
+   * @param gesture - The gesture whose event should be dropped
+   */
+  public cancel(gesture: Gesture<string>): void {
+    this.pendingEvents.delete(gesture);
+  }
+
+  /**
+   * Drop all held events and the scheduled animation frame
+   */
+  public destroy(): void {
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+    this.pendingEvents.clear();
+  }
+}
@@ -1,11 +1,17 @@
 import { ActiveGesturesRegistry } from './ActiveGesturesRegistry';
-import { Gesture } from './Gesture';
-import { PointerManager } from './PointerManager';
+import { Gesture, GestureRecognizerState } from './Gesture';
+import { GestureDispatchMode, GestureEventBatcher } from './GestureEventBatcher';
+import { HitTestFunction, PointerManager } from './PointerManager';
+import { TraceRecorder } from './TraceRecorder';
+import { FrameScheduler } from './types/FrameScheduler';
 import { GestureElement } from './types/GestureElement';
 import { MergeUnions } from './types/MergeUnions';
 import { OmitNever } from './types/OmitNever';
 import { Simplify } from './types/Simplify';
 import { TargetElement } from './types/TargetElement';
+import { TimeoutScheduler } from './types/TimeoutScheduler';
+import { getComposedParent, getTouchAction, parseTouchAction } from './utils';
+import { VirtualTarget } from './VirtualTarget';
 
 /**
  * Configuration options for initializing the GestureManager
@@ -17,13 +23,17 @@ export type GestureManagerOptions<
   /**
    * The root DOM element to which the PointerManager will attach its event listeners.
    * All gesture detection will be limited to events within this element.
+   *
+   * A shadow root can be used to track the events of a web component from inside it.
    */
-  root?: TargetElement;
+  root?: TargetElement | ShadowRoot;
 
   /**
    * CSS touch-action property to apply to the root element.
    * Controls how the browser responds to touch interactions.
    *
+   * The registered elements get their own touch-action, computed from their gestures.
+   *
    * Common values:
    * - "none": Disable browser handling of all panning/zooming gestures
    * - "pan-x": Allow horizontal panning, disable vertical gestures
@@ -35,13 +45,62 @@ export type GestureManagerOptions<
   touchAction?: string;
 
   /**
-   * Whether to use passive event listeners for improved scrolling performance.
-   * When true, gestures cannot use preventDefault() on touch events.
+   * Whether to use passive event listeners.
+   * When true, gestures cannot use preventDefault() on pointer events, and native scrolling is
+   * never blocked.
+   *
+   * Otherwise, native scrolling is blocked only once a gesture with the `preventDefault` option
+   * is recognized, like a pan crossing its threshold in an allowed direction. The non-passive
+   * touchmove listener this needs is only added while such gestures are registered.
    *
    * @default false
    */
   passive?: boolean;
 
+  /**
+   * How the gesture events are dispatched.
+   *
+   * - "sync": Dispatch every event as soon as the gesture emits it
+   * - "frame": Merge the `ongoing` events of each gesture within an animation frame into a
+   *   single event, dispatched at the start of the next frame. The deltas of the merged events
+   *   are added up. Useful when the listeners do heavy work, like re-rendering a chart.
+   *
+   * @default 'sync'
+   */
+  dispatchMode?: GestureDispatchMode;
+
+  /**
+   * Function scheduling the animation frames of the gestures and of the "frame" dispatch mode.
+   * The callback gets the time of the frame, on the timeline of the pointer event timestamps,
+   * which drives the momentum of the pan gesture.
+   *
+   * Useful to drive the frames from another clock, like the HeadlessGestureEngine does.
+   *
+   * @default requestAnimationFrame, or a 16ms timeout where it isn't available
+   */
+  requestFrame?: FrameScheduler;
+
+  /**
+   * Function scheduling the timers of the gestures, like the duration of a press or the interval
+   * between the taps of a multi-tap.
+   *
+   * Useful to drive the timers from another clock, like the HeadlessGestureEngine does.
+   *
+   * @default setTimeout
+   */
+  requestTimeout?: TimeoutScheduler;
+
+  /**
+   * Warn in the console when the touch-action of an ancestor of a registered element, below the
+   * root, disables browser touch gestures that its gestures leave to the browser. Each element
+   * is checked once, since the computed styles of all its ancestors are read.
+   *
+   * Useful during development, to find why a list doesn't scroll over the registered elements.
+   *
+   * @default false
+   */
+  warnTouchActionConflicts?: boolean;
+
   /**
    * Array of gesture templates to register with the manager.
    * These serve as prototypes that can be cloned for individual elements.
@@ -171,6 +230,21 @@ export class GestureManager<
     new ActiveGesturesRegistry();
   private pointerManager: PointerManager;
 
+  /** Dispatcher of the gesture events, batching them per animation frame if configured */
+  private eventBatcher: GestureEventBatcher;
+
+  /** Root virtual targets of the elements with a hit test */
+  private hitTestRoots: Map<TargetElement, VirtualTarget> = new Map();
+
+  /** Inline touch-action of the registered elements, before their gestures changed it */
+  private originalTouchActions: Map<HTMLElement | SVGElement, string> = new Map();
+
+  /** Whether to warn about the touch-action of the ancestors disabling browser touch gestures */
+  private warnTouchActionConflicts: boolean;
+
+  /** Elements already checked for touch-action conflicts */
+  private touchActionCheckedElements: WeakSet<HTMLElement | SVGElement> = new WeakSet();
+
   /**
    * Create a new GestureManager instance to coordinate gesture recognition
    *
@@ -182,8 +256,19 @@ export class GestureManager<
       root: options.root,
       touchAction: options.touchAction,
       passive: options.passive,
+      requestFrame: options.requestFrame,
+      requestTimeout: options.requestTimeout,
     });
 
+    this.eventBatcher = new GestureEventBatcher(
+      options.dispatchMode ?? 'sync',
+      options.requestFrame
+    );
+    this.warnTouchActionConflicts = options.warnTouchActionConflicts ?? false;
+
+    // Arbitrate between gestures on the same element whenever one changes state
+    this.activeGesturesRegistry.addStateChangeListener(this.handleRecognizerStateChange);
+
     // Add initial gestures as templates if provided
     if (options.gestures && options.gestures.length > 0) {
       options.gestures.forEach(gesture => {
@@ -207,6 +292,88 @@ export class GestureManager<
     this.gestureTemplates.set(gesture.name, gesture);
   }
 
+  /**
+   * Arbitrate between the gestures registered on an element when one of them changes state.
+   *
+   * When a gesture begins or is recognized, every other gesture on the same element that lists
+   * it in `preventIf` is failed. Competing gestures that were already in progress are cancelled.
+   * When an exclusive gesture begins, the active gestures it doesn't run with are cancelled as
+   * well. Exclusive gestures already in progress are protected, the gestures they don't run with
+   * can't begin in the first place.
+   *
+   * Gestures waiting on `requireFailureOf` are then resolved if their required gestures settled.
+   *
+   * @param element - The DOM element the gesture is attached to
+   * @param gesture - The gesture instance whose state changed
+   * @param state - The new recognizer state
+   */
+  private handleRecognizerStateChange = (
+    element: TargetElement,
+    gesture: Gesture<string>,
+    state: GestureRecognizerState
+  ): void => {
+    const elementGestures = this.elementGestureMap.get(element);
+    if (!elementGestures) return;
+
+    if (state === 'began' || state === 'recognized') {
+      for (const [_, competitor] of elementGestures) {
+        if (competitor !== gesture && competitor.isPreventedBy(gesture.name)) {
+          competitor.fail();
+        }
+      }
+    }
+
+    if (state === 'began') {
+      // Only an exclusive newcomer takes over the active gestures it doesn't run with,
+      // and the exclusive gestures in progress keep running
+      this.activeGesturesRegistry.getActiveGestureInstances(element).forEach(active => {
+        if (active === gesture || gesture.allowsSimultaneous(active.name)) return;
+
+        const activeState = active.getRecognizerState();
+        const isInProgress = activeState === 'began' || activeState === 'changed';
+        if (isInProgress && !active.allowsSimultaneous(gesture.name)) return;
+
+        active.fail();
+      });
+    }
+
+    this.resolvePendingRecognitions(elementGestures);
+  };
+
+  /**
+   * Emit or drop the deferred recognitions of the gestures of an element.
+   *
+   * A deferred recognition is dropped as soon as one of its required gestures is recognized,
+   * and emitted once all of them have failed or are no longer tracking an interaction.
+   *
+   * @param elementGestures - The gestures registered on the element, by name
+   */
+  private resolvePendingRecognitions(elementGestures: Map<string, Gesture<string>>): void {
+    for (const [_, gesture] of elementGestures) {
+      if (!gesture.hasPendingRecognition()) continue;
+
+      const requiredGestures = gesture
+        .getRequiredFailures()
+        .map(name => elementGestures.get(name))
+        .filter(required => required !== undefined);
+
+      // A required gesture that started, even if it was cancelled later, didn't fail
+      const hasRequiredStarted = requiredGestures.some(
+        required =>
+          required.getRecognizerState() !== 'possible' && required.getRecognizerState() !== 'failed'
+      );
+      const haveRequiredFailed = requiredGestures.every(
+        required => required.getRecognizerState() === 'failed' || !required.isTracking()
+      );
+
+      if (hasRequiredStarted) {
+        gesture.resolvePendingRecognition(false);
+      } else if (haveRequiredFailed) {
+        gesture.resolvePendingRecognition(true);
+      }
+    }
+  }
+
   /**
    * Updates the options for a specific gesture on a given element and emits a change event.
    *
@@ -241,6 +408,9 @@ export class GestureManager<
     });
 
     element.dispatchEvent(event);
+
+    // The new options can change the browser touch gestures competing with the gesture
+    this.updateTouchAction(element);
   }
 
   /**
@@ -372,10 +542,16 @@ export class GestureManager<
     // Clone the gesture template and create a new instance with optional overrides
     // This allows each element to have its own state, event listeners, and configuration
     const gestureInstance = gestureTemplate.clone(options);
-    gestureInstance.init(element, this.pointerManager, this.activeGesturesRegistry);
+    gestureInstance.init(
+      element,
+      this.pointerManager,
+      this.activeGesturesRegistry,
+      this.eventBatcher
+    );
 
     // Store the gesture in the element's gesture map
     elementGestures.set(gestureName, gestureInstance);
+    this.updateTouchAction(element);
 
     return true;
   }
@@ -407,6 +583,8 @@ export class GestureManager<
       this.elementGestureMap.delete(element);
     }
 
+    this.updateTouchAction(element);
+
     return true;
   }
 
@@ -427,9 +605,166 @@ export class GestureManager<
 
       // Clear the map
       this.elementGestureMap.delete(element);
+      this.updateTouchAction(element);
+    }
+  }
+
+  /**
+   * Apply the least restrictive touch-action allowing the gestures of an element.
+   *
+   * The browser touch gestures competing with the registered gestures, like scrolling along the
+   * direction of a pan, are disabled, and the others are left to the browser. The original
+   * inline touch-action is restored once the element has no gestures disabling any.
+   *
+   * @param element - The element whose gestures changed
+   */
+  private updateTouchAction(element: TargetElement): void {
+    // Virtual targets are handled by the touch-action of the element rendering them
+    if (element instanceof VirtualTarget) return;
+
+    const blocked = Array.from(this.elementGestureMap.get(element)?.values() ?? []).flatMap(
+      gesture => gesture.getBlockedTouchGestures()
+    );
+
+    if (blocked.length === 0) {
+      const original = this.originalTouchActions.get(element);
+      if (original !== undefined) {
+        element.style.touchAction = original;
+        this.originalTouchActions.delete(element);
+      }
+      return;
+    }
+
+    if (!this.originalTouchActions.has(element)) {
+      this.originalTouchActions.set(element, element.style.touchAction);
+    }
+
+    const touchAction = getTouchAction(blocked);
+    element.style.touchAction = touchAction;
+
+    if (this.warnTouchActionConflicts && !this.touchActionCheckedElements.has(element)) {
+      this.touchActionCheckedElements.add(element);
+      this.checkTouchActionConflicts(element, touchAction);
+    }
+  }
+
+  /**
+   * Warn when the touch-action of an ancestor disables browser touch gestures that the
+   * gestures of an element leave to the browser, like scrolling a vertical list of carousels.
+   *
+   * The browser combines the touch-action of the element with the ones of its ancestors, up to
+   * the nearest scroll container. The root is skipped, its touch-action is set by the manager.
+   *
+   * @param element - The registered element
+   * @param touchAction - The touch-action applied to the element
+   */
+  private checkTouchActionConflicts(element: HTMLElement | SVGElement, touchAction: string): void {
+    if (typeof getComputedStyle === 'undefined') return;
+
+    const allowed = parseTouchAction(touchAction);
+    const root = this.pointerManager.getRootElement();
+
+    for (
+      let ancestor = getComposedParent(element);
+      ancestor && ancestor !== root;
+      ancestor = getComposedParent(ancestor)
+    ) {
+      const style = getComputedStyle(ancestor);
+      const ancestorAllowed = parseTouchAction(style.touchAction);
+      const disabled = allowed.filter(gesture => !ancestorAllowed.includes(gesture));
+
+      if (disabled.length > 0) {
+        console.warn(
+          `The touch-action "${style.touchAction}" of an ancestor disables ${disabled.join(', ')}, ` +
+            `which the gestures registered on the element leave to the browser.`,
+          { element, ancestor }
+        );
+        return;
+      }
+
+      // The touch-action of the ancestors of a scroll container doesn't apply to its content
+      if (/auto|scroll|hidden/.test(`${style.overflowX} ${style.overflowY}`)) return;
     }
   }
 
+  /**
+   * Register a hit test resolving the virtual targets rendered by an element, like the objects
+   * of a canvas scene. Gestures can then be registered on the virtual targets like on elements.
+   *
+   * Pointers are routed to the virtual target they went down on, and the gesture events carry
+   * its id in `targetId`. Wheel events aren't routed, so wheel gestures stay on the element.
+   * Any previous hit test of the element is replaced.
+   *
+   * @param element - The DOM element rendering the virtual targets
+   * @param hitTest - Function resolving the id of the virtual target under a point of the element
+   * @returns The root virtual target, representing the element
+   *
+   * @example
+   * ```typescript
+   * const scene = manager.registerHitTest(canvas, (x, y) => chart.getBarAt(x, y)?.id ?? null);
+   *
+   * const bar = manager.registerElement('tap', scene.createChild('bar-1'));
+   * bar.addEventListener('tap', event => {
+   *   console.log(`Tapped ${event.detail.targetId}`);
+   * });
+   * ```
+   */
+  public registerHitTest(element: TargetElement, hitTest: HitTestFunction): VirtualTarget {
+    this.unregisterHitTest(element);
+
+    const root = new VirtualTarget('root');
+    this.hitTestRoots.set(element, root);
+    this.pointerManager.registerHitTest(element, root, hitTest);
+
+    return root;
+  }
+
+  /**
+   * Remove the hit test of an element, and unregister all gestures of its virtual targets.
+   *
+   * @param element - The DOM element rendering the virtual targets
+   */
+  public unregisterHitTest(element: TargetElement): void {
+    const root = this.hitTestRoots.get(element);
+    if (!root) return;
+
+    const unregisterRecursively = (target: VirtualTarget) => {
+      target.getChildren().forEach(unregisterRecursively);
+      this.unregisterAllGestures(target);
+    };
+
+    unregisterRecursively(root);
+    this.hitTestRoots.delete(element);
+    this.pointerManager.unregisterHitTest(element);
+  }
+
+  /**
+   * Create a recorder for the pointer, wheel and interruption events of an element.
+   *
+   * The trace produced by the recorder contains the configuration of the gestures
+   * registered on the element when the recording starts.
+   *
+   * @param element - The DOM element whose interactions should be recorded, not a virtual target
+   * @returns A recorder, which starts recording when its `start` method is called
+   *
+   * @example
+   * ```typescript
+   * const recorder = manager.createTraceRecorder(element);
+   * recorder.start();
+   *
+   * // Later
+   * const trace = recorder.stop();
+   * console.log(JSON.stringify(trace));
+   * ```
+   */
+  public createTraceRecorder(element: HTMLElement | SVGElement): TraceRecorder {
+    return new TraceRecorder({
+      element,
+      pointerManager: this.pointerManager,
+      getGestures: () => Array.from(this.elementGestureMap.get(element)?.values() ?? []),
+    });
+  }
+
   /**
    * Clean up all gestures and event listeners.
    * Call this method when the GestureManager is no longer needed to prevent memory leaks.
@@ -443,6 +778,85 @@ export class GestureManager<
     // Clear all templates
     this.gestureTemplates.clear();
     this.elementGestureMap.clear();
+    this.hitTestRoots.clear();
+    this.originalTouchActions.clear();
     this.activeGesturesRegistry.destroy();
+    this.eventBatcher.destroy();
   }
 }
+
+/**
+ * Any gesture manager, whatever its gestures
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyGestureManager = GestureManager<any, any>;
+
+/**
+ * The names of the gestures that can be registered with a manager
+ */
+export type GestureManagerGestureName<Manager extends AnyGestureManager> =
+  Manager extends GestureManager<infer _Name, infer _Gestures, infer _Union, infer Name>
+    ? Name
+    : never;
+
+/**
+ * The gesture events of a manager, by event name
+ */
+export type GestureManagerEventMap<Manager extends AnyGestureManager> =
+  Manager extends GestureManager<
+    infer _Name,
+    infer _Gestures,
+    infer _Union,
+    infer _NameUnion,
+    infer _EventName,
+    infer _GestureMap,
+    infer EventMap
+  >
+    ? EventMap
+    : never;
+
+/**
+ * The options of the gestures of a manager that can be changed at runtime, by gesture name
+ */
+export type GestureManagerOptionsMap<Manager extends AnyGestureManager> =
+  Manager extends GestureManager<
+    infer _Name,
+    infer _Gestures,
+    infer _Union,
+    infer _NameUnion,
+    infer _EventName,
+    infer _GestureMap,
+    infer _EventMap,
+    infer OptionsMap
+  >
+    ? OptionsMap
+    : never;
+
+/**
+ * The names of the events a gesture of a manager can emit.
+ * Single phase gestures emit an event named after them, the others emit one per phase.
+ */
+export type GestureEventName<
+  Manager extends AnyGestureManager,
+  GestureName extends string,
+> = Extract<
+  keyof GestureManagerEventMap<Manager>,
+  GestureName | `${GestureName}Start` | `${GestureName}End` | `${GestureName}Cancel`
+>;
+
+/**
+ * The event of a gesture of a manager, with the data of the gesture in `detail`
+ */
+export type GestureEvent<
+  Manager extends AnyGestureManager,
+  GestureName extends string,
+> = GestureManagerEventMap<Manager>[GestureEventName<Manager, GestureName>];
+
+/**
+ * Typed handlers of the events of a gesture, like `onPanStart`, `onPan` and `onPanEnd`
+ */
+export type GestureHandlers<Manager extends AnyGestureManager, GestureName extends string> = {
+  [K in GestureEventName<Manager, GestureName> as `on${Capitalize<K & string>}`]?: (
+    event: GestureManagerEventMap<Manager>[K]
+  ) => void;
+};
@@ -0,0 +1,569 @@
+/**
+ * HeadlessGestureEngine - Gesture recognition without a DOM
+ *
+ * The engine runs the regular gesture recognizers against a tree of virtual targets:
+ * 1. Normalized pointer and wheel samples are fed to the engine, with the id of their target
+ * 2. The samples go through the same PointerManager and GestureManager as in the browser
+ * 3. The recognized gesture events are returned as plain, serializable objects
+ *
+ * This allows running the recognition in a Web Worker, in Node, or for canvas scenes.
+ */
+
+import { Gesture, GestureModifiers } from './Gesture';
+import { GestureManager } from './GestureManager';
+import { PointerData } from './PointerManager';
+import { VirtualTarget } from './VirtualTarget';
+
+/** Duration of the animation frames of the engine, in ms */
+const FRAME_DURATION = 16;
+
+/**
+ * A normalized pointer sample fed to the headless engine
+ */
+export type HeadlessPointerSample = {
+  /** Type of pointer event: 'pointerdown', 'pointermove', 'pointerup' or 'pointercancel' */
+  type: 'pointerdown' | 'pointermove' | 'pointerup' | 'pointercancel';
+  /** Id of the virtual target under the pointer */
+  targetId: string;
+  /** Unique identifier for this pointer */
+  pointerId: number;
+  /** X-coordinate of the pointer */
+  clientX: number;
+  /** Y-coordinate of the pointer */
+  clientY: number;
+  /** Timestamp of the sample in milliseconds */
+  timeStamp: number;
+  /**
+   * Indicates the type of pointing device: 'mouse', 'touch', or 'pen'
+   * @default 'touch'
+   */
+  pointerType?: string;
+  /**
+   * Whether this is the primary pointer in a multi-pointer scenario
+   * @default true
+   */
+  isPrimary?: boolean;
+  /**
+   * Pressure value, ranges from 0 to 1
+   * @default 0.5 while the pointer is down, 0 otherwise
+   */
+  pressure?: number;
+  /**
+   * The button whose state changed: 0 for the primary button, 2 for the secondary button
+   * @default 0 for 'pointerdown' and 'pointerup', -1 otherwise
+   */
+  button?: number;
+  /**
+   * The pressed buttons, as a bitmask like `PointerEvent.buttons`
+   * @default 1 while the pointer is down, 0 otherwise
+   */
+  buttons?: number;
+  /**
+   * The pressed keyboard modifier keys
+   * @default {} (no modifier key pressed)
+   */
+  modifiers?: Partial<GestureModifiers>;
+  /**
+   * Width of the contact area
+   * @default 1
+   */
+  width?: number;
+  /**
+   * Height of the contact area
+   * @default 1
+   */
+  height?: number;
+  /**
+   * Tilt of the pen along the X axis, from -90 to 90 degrees
+   * @default 0
+   */
+  tiltX?: number;
+  /**
+   * Tilt of the pen along the Y axis, from -90 to 90 degrees
+   * @default 0
+   */
+  tiltY?: number;
+  /**
+   * Clockwise rotation of the pen around its own axis, from 0 to 359 degrees
+   * @default 0
+   */
+  twist?: number;
+  /**
+   * Angle between the pen and the surface, in radians
+   * @default Computed from the tilt angles
+   */
+  altitudeAngle?: number;
+  /**
+   * Angle of the pen around the Z axis, in radians
+   * @default Computed from the tilt angles
+   */
+  azimuthAngle?: number;
+  /**
+   * Pressure on the barrel of the pen, from -1 to 1
+   * @default 0
+   */
+  tangentialPressure?: number;
+};
+
+/**
+ * A normalized wheel sample fed to the headless engine
+ */
+export type HeadlessWheelSample = {
+  /** Id of the virtual target under the pointer */
+  targetId: string;
+  /** X-coordinate of the pointer */
+  clientX: number;
+  /** Y-coordinate of the pointer */
+  clientY: number;
+  /** Timestamp of the sample in milliseconds */
+  timeStamp: number;
+  /** Horizontal scroll amount */
+  deltaX?: number;
+  /** Vertical scroll amount */
+  deltaY?: number;
+  /** Scroll amount on the z-axis */
+  deltaZ?: number;
+  /** Unit of the delta values, 0 for pixels */
+  deltaMode?: number;
+  /**
+   * The pressed keyboard modifier keys
+   * @default {} (no modifier key pressed)
+   */
+  modifiers?: Partial<GestureModifiers>;
+};
+
+/**
+ * Pointer data of a headless gesture event, with the target replaced by its id
+ */
+export type HeadlessPointerData = Omit<
+  PointerData,
+  'target' | 'composedPath' | 'virtualTarget' | 'srcEvent'
+> & {
+  /** Id of the virtual target of the pointer */
+  targetId: string | null;
+};
+
+/**
+ * A gesture event recognized by the headless engine
+ */
+export type HeadlessGestureEvent = {
+  /** Name of the event, like 'panStart' or 'tap' */
+  type: string;
+  /** Id of the virtual target the gesture is registered on */
+  targetId: string;
+  /**
+   * The event data, like the detail of the DOM gesture events.
+   * The target and the source event are omitted, the pointers carry the id of their target.
+   */
+  detail: Record<string, unknown> & {
+    targetId: string | null;
+    pointers: HeadlessPointerData[];
+  };
+};
+
+/**
+ * Configuration options for the HeadlessGestureEngine
+ */
+export type HeadlessGestureEngineOptions<
+  GestureName extends string,
+  Gestures extends Gesture<GestureName>,
+> = {
+  /**
+   * Id of the root of the virtual target tree
+   * @default 'root'
+   */
+  rootId?: string;
+
+  /**
+   * Array of gesture templates to register with the engine.
+   */
+  gestures: Gestures[];
+};
+
+/**
+ * An animation frame or a timer scheduled by the gestures of the engine
+ */
+type HeadlessTask = {
+  /** Time the task is due, on the timeline of the samples */
+  time: number;
+  /** The function to call when the task is due */
+  callback: () => void;
+};
+
+/**
+ * Engine recognizing gestures on a virtual target tree, without a DOM.
+ *
+ * Timers, like the duration of the press gesture, and animation frames, like the momentum of
+ * the pan gesture, follow the timestamps of the samples instead of the real time: every 16ms of
+ * sample time is a frame. The timers and frames due before a sample run before it is processed,
+ * and `advanceTime` runs them without a sample, so that the events only depend on the samples.
+ *
+ * @example
+ * ```ts
+ * const engine = new HeadlessGestureEngine({
+ *   gestures: [new PanGesture({ name: 'pan' })],
+ * });
+ *
+ * engine.createTarget('node-1');
+ * engine.registerTarget('pan', 'node-1');
+ *
+ * const events = engine.processPointer({
+ *   type: 'pointerdown',
+ *   targetId: 'node-1',
+ *   pointerId: 2,
+ *   clientX: 10,
+ *   clientY: 10,
+ *   timeStamp: 0,
+ * });
+ * ```
+ */
+export class HeadlessGestureEngine<
+  GestureName extends string,
+  Gestures extends Gesture<GestureName>,
+> {
+  /** Root of the virtual target tree */
+  public readonly root: VirtualTarget;
+
+  /** Virtual targets by id */
+  private targets: Map<string, VirtualTarget> = new Map();
+
+  /** The manager running the gestures on the virtual targets */
+  private gestureManager: GestureManager<GestureName, Gestures>;
+
+  /** Gesture events recognized since the last time they were returned */
+  private pendingEvents: HeadlessGestureEvent[] = [];
+
+  /** Function to stop collecting the gesture events */
+  private unregisterDispatchListener: () => void;
+
+  /** Time of the engine, from the timestamps of the samples and the frames that ran */
+  private time = 0;
+
+  /** Animation frames and timers scheduled by the gestures, in time order */
+  private tasks: HeadlessTask[] = [];
+
+  constructor(options: HeadlessGestureEngineOptions<GestureName, Gestures>) {
+    this.root = new VirtualTarget(options.rootId ?? 'root');
+    this.targets.set(this.root.id, this.root);
+
+    this.gestureManager = new GestureManager({
+      root: this.root,
+      gestures: options.gestures,
+      requestFrame: this.requestFrame,
+      requestTimeout: this.requestTimeout,
+    });
+
+    this.unregisterDispatchListener = this.root.addDispatchListener(this.handleDispatch);
+  }
+
+  /**
+   * Create a virtual target
+   *
+   * @param id - Unique identifier of the new target
+   * @param parentId - Id of the parent target, the root when omitted
+   * @returns The new target
+   */
+  public createTarget(id: string, parentId?: string): VirtualTarget {
+    if (this.targets.has(id)) {
+      throw new Error(`Virtual target "${id}" already exists.`);
+    }
+
+    const parent = this.getTarget(parentId ?? this.root.id);
+    const target = parent.createChild(id);
+    this.targets.set(id, target);
+
+    return target;
+  }
+
+  /**
+   * Get a virtual target by id
+   *
+   * @param id - The id of the target
+   * @returns The target
+   */
+  public getTarget(id: string): VirtualTarget {
+    const target = this.targets.get(id);
+    if (!target) {
+      throw new Error(`Virtual target "${id}" not found.`);
+    }
+
+    return target;
+  }
+
+  /**
+   * Remove a virtual target and its descendants, unregistering all their gestures
+   *
+   * @param id - The id of the target
+   */
+  public removeTarget(id: string): void {
+    const target = this.getTarget(id);
+    if (target === this.root) {
+      throw new Error('The root virtual target cannot be removed.');
+    }
+
+    const removeRecursively = (node: VirtualTarget) => {
+      node.getChildren().forEach(removeRecursively);
+      this.gestureManager.unregisterAllGestures(node);
+      this.targets.delete(node.id);
+    };
+
+    removeRecursively(target);
+    target.remove();
+  }
+
+  /**
+   * Register one or more gestures on a virtual target
+   *
+   * @param gestureNames - Name(s) of the gesture(s) to register (must match template names)
+   * @param targetId - The id of the target
+   * @param options - Optional map of gesture-specific options to override when registering
+   */
+  public registerTarget(
+    gestureNames: GestureName | GestureName[],
+    targetId: string,
+    options?: Partial<Record<GestureName, Record<string, unknown>>>
+  ): void {
+    this.gestureManager.registerElement(
+      gestureNames as never,
+      this.getTarget(targetId),
+      options as never
+    );
+  }
+
+  /**
+   * Unregister a gesture from a virtual target
+   *
+   * @param gestureName - Name of the gesture to unregister
+   * @param targetId - The id of the target
+   * @returns True if the gesture was found and removed, false otherwise
+   */
+  public unregisterTarget(gestureName: GestureName, targetId: string): boolean {
+    return this.gestureManager.unregisterElement(gestureName, this.getTarget(targetId));
+  }
+
+  /**
+   * Process a pointer sample
+   *
+   * @param sample - The normalized pointer sample
+   * @returns The gesture events recognized since the last call
+   */
+  public processPointer(sample: HeadlessPointerSample): HeadlessGestureEvent[] {
+    this.runTasks(sample.timeStamp);
+
+    const isDown = sample.type === 'pointerdown' || sample.type === 'pointermove';
+
+    const event = this.createEvent(sample.type, sample, {
+      pointerId: sample.pointerId,
+      clientX: sample.clientX,
+      clientY: sample.clientY,
+      pageX: sample.clientX,
+      pageY: sample.clientY,
+      pointerType: sample.pointerType ?? 'touch',
+      isPrimary: sample.isPrimary ?? true,
+      pressure: sample.pressure ?? (isDown ? 0.5 : 0),
+      button:
+        sample.button ?? (sample.type === 'pointerdown' || sample.type === 'pointerup' ? 0 : -1),
+      buttons: sample.buttons ?? (isDown ? 1 : 0),
+      width: sample.width ?? 1,
+      height: sample.height ?? 1,
+      tiltX: sample.tiltX ?? 0,
+      tiltY: sample.tiltY ?? 0,
+      twist: sample.twist ?? 0,
+      altitudeAngle: sample.altitudeAngle,
+      azimuthAngle: sample.azimuthAngle,
+      tangentialPressure: sample.tangentialPressure ?? 0,
+    });
+
+    // The PointerManager listens to the pointer events on the root
+    this.root.dispatchEvent(event);
+
+    return this.flush();
+  }
+
+  /**
+   * Process a wheel sample
+   *
+   * @param sample - The normalized wheel sample
+   * @returns The gesture events recognized since the last call
+   */
+  public processWheel(sample: HeadlessWheelSample): HeadlessGestureEvent[] {
+    this.runTasks(sample.timeStamp);
+
+    // Wheel gestures listen on their own target, so the event goes up the tree like in the DOM
+    this.getTarget(sample.targetId)
+      .getPath()
+      .forEach(node => {
+        const event = this.createEvent('wheel', sample, {
+          clientX: sample.clientX,
+          clientY: sample.clientY,
+          deltaX: sample.deltaX ?? 0,
+          deltaY: sample.deltaY ?? 0,
+          deltaZ: sample.deltaZ ?? 0,
+          deltaMode: sample.deltaMode ?? 0,
+        });
+
+        node.dispatchEvent(event);
+      });
+
+    return this.flush();
+  }
+
+  /**
+   * Run the timers and animation frames up to a time, like the duration of a press
+   * or the momentum of a pan after the release
+   *
+   * @param timeStamp - The time to advance to, on the timeline of the samples
+   * @returns The gesture events recognized since the last call
+   */
+  public advanceTime(timeStamp: number): HeadlessGestureEvent[] {
+    this.runTasks(timeStamp);
+
+    return this.flush();
+  }
+
+  /**
+   * Interrupt all gestures, like a blur of the window
+   *
+   * @returns The gesture events recognized since the last call
+   */
+  public interrupt(): HeadlessGestureEvent[] {
+    this.root.dispatchEvent(new Event('blur'));
+
+    return this.flush();
+  }
+
+  /**
+   * Get the gesture events recognized since the last call, including the ones emitted by timers
+   *
+   * @returns The recognized gesture events, in order
+   */
+  public flush(): HeadlessGestureEvent[] {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
+  }
+
+  /**
+   * Clean up all gestures and virtual targets.
+   */
+  public destroy(): void {
+    this.gestureManager.destroy();
+    this.unregisterDispatchListener();
+    this.targets.clear();
+    this.pendingEvents = [];
+    this.tasks = [];
+  }
+
+  /**
+   * Schedule a callback for the next animation frame of the engine
+   *
+   * @param callback - The function to call on the frame, with the time of the frame
+   * @returns Function cancelling the scheduled callback
+   */
+  private requestFrame = (callback: (time: number) => void): (() => void) => {
+    const time = this.time + FRAME_DURATION;
+    return this.scheduleTask(time, () => callback(time));
+  };
+
+  /**
+   * Schedule a callback after a delay on the clock of the engine
+   *
+   * @param callback - The function to call after the delay
+   * @param delay - The delay in milliseconds
+   * @returns Function cancelling the scheduled callback
+   */
+  private requestTimeout = (callback: () => void, delay: number): (() => void) => {
+    return this.scheduleTask(this.time + Math.max(0, delay), callback);
+  };
+
+  /**
+   * Add a task to the scheduled tasks, after the ones due at the same time
+   *
+   * @param time - Time the task is due, on the timeline of the samples
+   * @param callback - The function to call when the task is due
+   * @returns Function cancelling the task
+   */
+  private scheduleTask(time: number, callback: () => void): () => void {
+    const task: HeadlessTask = { time, callback };
+    const index = this.tasks.findIndex(scheduled => scheduled.time > time);
+    this.tasks.splice(index === -1 ? this.tasks.length : index, 0, task);
+
+    return () => {
+      this.tasks = this.tasks.filter(scheduled => scheduled !== task);
+    };
+  }
+
+  /**
+   * Run the timers and animation frames due up to a time, including the ones they schedule
+   *
+   * @param timeStamp - The time to advance to, on the timeline of the samples
+   */
+  private runTasks(timeStamp: number): void {
+    while (this.tasks.length > 0 && this.tasks[0].time <= timeStamp) {
+      const task = this.tasks.shift()!;
+      this.time = task.time;
+      task.callback();
+    }
+
+    this.time = Math.max(this.time, timeStamp);
+  }
+
+  /**
+   * Create an event carrying the properties of a sample, targeting a virtual target
+   *
+   * @param type - The type of the event
+   * @param sample - The sample, with its target, timestamp and modifier keys
+   * @param properties - The other properties of the sample
+   */
+  private createEvent<T extends Event>(
+    type: string,
+    sample: HeadlessPointerSample | HeadlessWheelSample,
+    properties: Record<string, unknown>
+  ): T {
+    const target = this.getTarget(sample.targetId);
+    const event = new Event(type, { bubbles: true, cancelable: true });
+
+    // Own properties take precedence over the ones of the Event prototype
+    Object.defineProperties(event, {
+      target: { value: target },
+      timeStamp: { value: sample.timeStamp },
+      shiftKey: { value: sample.modifiers?.shift ?? false },
+      ctrlKey: { value: sample.modifiers?.ctrl ?? false },
+      altKey: { value: sample.modifiers?.alt ?? false },
+      metaKey: { value: sample.modifiers?.meta ?? false },
+      ...Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, { value, enumerable: true }])
+      ),
+    });
+
+    return event as T;
+  }
+
+  /**
+   * Collect the gesture events dispatched on the virtual targets
+   *
+   * @param target - The target the event was dispatched on
+   * @param event - The dispatched event
+   */
+  private handleDispatch = (target: VirtualTarget, event: Event): void => {
+    if (!(event instanceof CustomEvent) || !event.detail || !('gestureName' in event.detail)) {
+      return;
+    }
+
+    const { srcEvent: _, target: __, pointers, ...detail } = event.detail;
+
+    this.pendingEvents.push({
+      type: event.type,
+      targetId: target.id,
+      detail: {
+        ...detail,
+        pointers: (pointers as PointerData[]).map(
+          ({ srcEvent: _, target: __, composedPath: ___, virtualTarget, ...pointer }) => ({
+            ...pointer,
+            targetId: virtualTarget?.id ?? null,
+          })
+        ),
+      },
+    });
+  };
+}
@@ -1,7 +1,17 @@
 import { ActiveGesturesRegistry } from './ActiveGesturesRegistry';
-import { Gesture, GestureEventData, GestureOptions } from './Gesture';
+import {
+  BrowserTouchGesture,
+  Gesture,
+  GestureEventData,
+  GestureOptions,
+  GestureRecognizerState,
+} from './Gesture';
+import { GestureEventBatcher } from './GestureEventBatcher';
 import { PointerData, PointerManager } from './PointerManager';
+import { InternalEvent } from './types/InternalEvent';
 import { TargetElement } from './types/TargetElement';
+import { createForceResetEvent, isWithinElement } from './utils';
+import { VirtualTarget } from './VirtualTarget';
 
 /**
  * Configuration options for pointer-based gestures, extending the base GestureOptions.
@@ -37,6 +47,30 @@ export interface PointerGestureOptions<GestureName extends string>
    * @default 0 (no threshold)
    */
   threshold?: number;
+
+  /**
+   * Types of pointing devices that can trigger the gesture.
+   * Pointers of other types are ignored, so different gestures can handle different devices
+   * on the same element.
+   *
+   * @example ['touch', 'pen']
+   * @default undefined (all pointer types)
+   */
+  pointerTypes?: Array<'mouse' | 'touch' | 'pen'>;
+
+  /**
+   * Buttons that can trigger the gesture, as a bitmask like `PointerEvent.buttons`:
+   * 1 for the primary button, 2 for the secondary (right) button, 4 for the auxiliary (middle)
+   * button. Pointers that aren't pressing any of these buttons are ignored.
+   *
+   * Touch contacts and pens touching the surface press the primary button.
+   * With the secondary button, the context menu is prevented while the button is pressed
+   * over the element, instead of interrupting the gestures.
+   *
+   * @example 2 // right-drag
+   * @default undefined (any button, including hovering pointers)
+   */
+  buttons?: number;
 }
 
 export type PointerGestureEventData<
@@ -84,6 +118,12 @@ export abstract class PointerGesture<GestureName extends string> extends Gesture
   /** Function to unregister from the PointerManager when destroying this gesture */
   protected unregisterHandler: (() => void) | null = null;
 
+  /** Function to stop using the secondary button, null when the gesture doesn't use it */
+  private releaseSecondaryButton: (() => void) | null = null;
+
+  /** Function to stop blocking the native scrolling, null when the gesture doesn't block it */
+  private releaseScrollBlocking: (() => void) | null = null;
+
   /** The original target element when the gesture began, used to prevent limbo state if target is removed */
   protected originalTarget: TargetElement | null = null;
 
@@ -108,23 +148,48 @@ export abstract class PointerGesture<GestureName extends string> extends Gesture
    */
   protected threshold: number;
 
+  /**
+   * Types of pointing devices that can trigger the gesture, undefined for all types.
+   */
+  protected pointerTypes: Array<'mouse' | 'touch' | 'pen'> | undefined;
+
+  /**
+   * Bitmask of the buttons that can trigger the gesture, undefined for any button.
+   */
+  protected buttons: number | undefined;
+
   constructor(options: PointerGestureOptions<GestureName>) {
     super(options);
     this.minPointers = options.minPointers ?? 1;
     this.maxPointers = options.maxPointers ?? Infinity;
     this.threshold = options.threshold ?? 0;
+    this.pointerTypes = options.pointerTypes;
+    this.buttons = options.buttons;
   }
 
   public init(
     element: TargetElement,
     pointerManager: PointerManager,
-    gestureRegistry: ActiveGesturesRegistry<GestureName>
+    gestureRegistry: ActiveGesturesRegistry<GestureName>,
+    eventBatcher?: GestureEventBatcher
   ): void {
-    super.init(element, pointerManager, gestureRegistry);
+    super.init(element, pointerManager, gestureRegistry, eventBatcher);
 
     this.unregisterHandler = this.pointerManager!.registerGestureHandler((pointers, event) =>
-      this.handlePointerEvent(pointers, event)
+      this.routePointerEvent(pointers, event)
     );
+    this.updatePointerManagerUsage();
+  }
+
+  public getOptions(): PointerGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
+      threshold: this.threshold,
+      minPointers: this.minPointers,
+      maxPointers: this.maxPointers,
+      pointerTypes: this.pointerTypes && [...this.pointerTypes],
+      buttons: this.buttons,
+    };
   }
 
   protected updateOptions(options: typeof this.mutableOptionsType): void {
@@ -133,6 +198,196 @@ export abstract class PointerGesture<GestureName extends string> extends Gesture
     this.minPointers = options.minPointers ?? this.minPointers;
     this.maxPointers = options.maxPointers ?? this.maxPointers;
     this.threshold = options.threshold ?? this.threshold;
+    this.pointerTypes = options.pointerTypes ?? this.pointerTypes;
+    this.buttons = options.buttons ?? this.buttons;
+    this.updatePointerManagerUsage();
+  }
+
+  /**
+   * Tell the PointerManager which of its features the options of the gesture need:
+   * the secondary button when the `buttons` option includes it, so its context menu doesn't
+   * interrupt the gesture, and the scroll blocking with the `preventDefault` option
+   */
+  private updatePointerManagerUsage(): void {
+    this.releaseSecondaryButton?.();
+    this.releaseSecondaryButton =
+      this.buttons !== undefined && (this.buttons & 2) !== 0
+        ? this.pointerManager.useSecondaryButton(this.element)
+        : null;
+
+    this.releaseScrollBlocking?.();
+    this.releaseScrollBlocking = this.preventDefault
+      ? this.pointerManager.useScrollBlocking()
+      : null;
+  }
+
+  /**
+   * Forward pointer events to the gesture implementation and keep the recognizer state in sync.
+   *
+   * Pointers filtered out by the `pointerTypes` and `buttons` options are hidden from the
+   * gesture implementation, and their events are ignored.
+   *
+   * A failed gesture ignores all pointer events until the interaction is over, which is when
+   * every relevant pointer has been released. Finished gestures go back to the possible state
+   * at that point, or when a new interaction starts.
+   *
+   * @param pointers - Map of active pointers by pointer ID
+   * @param event - The original pointer event from the browser
+   */
+  private routePointerEvent(allPointers: Map<number, PointerData>, event: PointerEvent): void {
+    const pointers = new Map(
+      Array.from(allPointers).filter(([_, pointer]) => this.isPointerAllowed(pointer))
+    );
+
+    // Interruptions always reach the gesture, so it can reset
+    if (!(event as InternalEvent).forceReset && !pointers.has(event.pointerId)) {
+      return;
+    }
+
+    if (
+      event.type === 'pointerdown' &&
+      this.isFinished() &&
+      this.isInteractionOver(pointers, event.pointerId)
+    ) {
+      this.setRecognizerState('possible');
+    }
+
+    if (this.recognizerState !== 'failed') {
+      this.handlePointerEvent(pointers, event);
+    }
+
+    if (
+      this.isFinished() &&
+      ((event as InternalEvent).forceReset || this.isInteractionOver(pointers))
+    ) {
+      this.setRecognizerState('possible');
+    }
+  }
+
+  /**
+   * Check if a pointer matches the `pointerTypes` and `buttons` options
+   *
+   * @param pointer - The pointer, or the pointer event, to check
+   * @returns true if the pointer can trigger the gesture, false otherwise
+   */
+  protected isPointerAllowed(pointer: Pick<PointerData, 'pointerType' | 'buttons'>): boolean {
+    if (!this.isPointerTypeAllowed(pointer.pointerType)) {
+      return false;
+    }
+
+    return this.buttons === undefined || (pointer.buttons & this.buttons) !== 0;
+  }
+
+  /**
+   * Check if a type of pointing device matches the `pointerTypes` option
+   *
+   * @param pointerType - The type of pointing device: 'mouse', 'touch', or 'pen'
+   * @returns true if the pointer type can trigger the gesture, false otherwise
+   */
+  protected isPointerTypeAllowed(pointerType: string): boolean {
+    return !this.pointerTypes || (this.pointerTypes as string[]).includes(pointerType);
+  }
+
+  /**
+   * Get the browser touch gestures competing with this gesture.
+   * Gestures that can't be triggered by touch or pen pointers don't compete with any.
+   *
+   * @returns The browser touch gestures to disable
+   */
+  public getBlockedTouchGestures(): BrowserTouchGesture[] {
+    if (!this.isPointerTypeAllowed('touch') && !this.isPointerTypeAllowed('pen')) {
+      return [];
+    }
+
+    return this.getCompetingTouchGestures();
+  }
+
+  /**
+   * Get the browser touch gestures that would take over the pointers of this gesture, like
+   * scrolling while panning. Gestures override this to disable them on their elements.
+   *
+   * @returns The browser touch gestures competing with this gesture, none by default
+   */
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    return [];
+  }
+
+  /**
+   * Get the coalesced and predicted samples of the pointer that triggered an event
+   *
+   * @param pointers - The pointers of the gesture
+   * @param event - The pointer event
+   * @returns The samples of the pointer, empty if it isn't one of the pointers of the gesture
+   */
+  protected getPointerSamples(
+    pointers: PointerData[],
+    event: PointerEvent
+  ): Pick<PointerData, 'coalescedSamples' | 'predictedSamples'> {
+    const pointer = pointers.find(p => p.pointerId === event.pointerId);
+
+    return {
+      coalescedSamples: pointer?.coalescedSamples ?? [],
+      predictedSamples: pointer?.predictedSamples ?? [],
+    };
+  }
+
+  /**
+   * Whether the recognizer reached a final state for the current interaction
+   */
+  private isFinished(): boolean {
+    return (
+      this.recognizerState === 'recognized' ||
+      this.recognizerState === 'failed' ||
+      this.recognizerState === 'cancelled'
+    );
+  }
+
+  /**
+   * Whether every relevant pointer has been released
+   *
+   * @param pointers - Map of active pointers by pointer ID
+   * @param ignoredPointerId - Pointer to leave out of the check, like the one being pressed
+   */
+  private isInteractionOver(
+    pointers: Map<number, PointerData>,
+    ignoredPointerId?: number
+  ): boolean {
+    return this.getRelevantPointers(Array.from(pointers.values()), this.element).every(
+      pointer =>
+        pointer.pointerId === ignoredPointerId ||
+        pointer.type === 'pointerup' ||
+        pointer.type === 'pointercancel'
+    );
+  }
+
+  /**
+   * Update the recognizer state, and claim the pointers of the gesture once it is recognized
+   * if it prevents the default browser actions
+   *
+   * @param state - The new recognizer state
+   */
+  protected setRecognizerState(state: GestureRecognizerState): void {
+    super.setRecognizerState(state);
+
+    if (this.preventDefault && (state === 'began' || state === 'recognized')) {
+      const pointers = Array.from(this.pointerManager.getPointers().values());
+      this.pointerManager.claimPointers(
+        this.getRelevantPointers(pointers, this.element).map(pointer => pointer.pointerId)
+      );
+    }
+  }
+
+  /**
+   * Fail the gesture, cancelling it first if it was in progress.
+   *
+   * This reuses the same force reset path as blur and contextmenu interruptions, so each
+   * gesture emits its own cancel events and resets its state.
+   */
+  public fail(): void {
+    if (this.recognizerState === 'failed') return;
+
+    this.handlePointerEvent(this.pointerManager.getPointers(), createForceResetEvent());
+    super.fail();
   }
 
   /**
@@ -161,13 +416,17 @@ export abstract class PointerGesture<GestureName extends string> extends Gesture
     pointers: PointerData[],
     calculatedTarget: TargetElement
   ): PointerData[] {
-    return pointers.filter(
-      pointer =>
-        calculatedTarget === pointer.target ||
-        calculatedTarget.contains(pointer.target as Node) ||
-        pointer.target === this.originalTarget ||
+    return pointers.filter(pointer => {
+      // Gestures on virtual targets are routed through the hit test instead of the DOM target
+      const isVirtual = calculatedTarget instanceof VirtualTarget;
+      const target = isVirtual ? pointer.virtualTarget : pointer.target;
+
+      return (
+        isWithinElement(calculatedTarget, target, isVirtual ? [] : pointer.composedPath) ||
+        target === this.originalTarget ||
         calculatedTarget === this.originalTarget
-    );
+      );
+    });
   }
 
   public destroy(): void {
@@ -175,6 +434,10 @@ export abstract class PointerGesture<GestureName extends string> extends Gesture
       this.unregisterHandler();
       this.unregisterHandler = null;
     }
+    this.releaseSecondaryButton?.();
+    this.releaseSecondaryButton = null;
+    this.releaseScrollBlocking?.();
+    this.releaseScrollBlocking = null;
     super.destroy();
   }
 }
@@ -8,9 +8,17 @@
  * 4. Distributing events to registered gesture recognizers
  */
 
-import { InternalEvent } from './types/InternalEvent';
+import { FrameScheduler } from './types/FrameScheduler';
 import { TargetElement } from './types/TargetElement';
+import { TimeoutScheduler } from './types/TimeoutScheduler';
+import { convertTiltToSpherical } from './utils/convertTiltToSpherical';
+import { createForceResetEvent } from './utils/createForceResetEvent';
+import { createPointerEvent } from './utils/createPointerEvent';
 import { isOS } from './utils/isOS';
+import { isWithinElement } from './utils/isWithinElement';
+import { requestFrame } from './utils/requestFrame';
+import { requestTimeout } from './utils/requestTimeout';
+import { VirtualTarget } from './VirtualTarget';
 
 /**
  * Normalized representation of a pointer, containing all relevant information
@@ -30,8 +38,21 @@ export type PointerData = {
   pageX: number;
   /** Y-coordinate relative to the document, including scroll offset */
   pageY: number;
-  /** The DOM element that was the target of this pointer event */
+  /**
+   * The DOM element that was the target of this pointer event.
+   * Events coming out of shadow trees are retargeted to the shadow host.
+   */
   target: EventTarget | null;
+  /**
+   * The path of the event from its innermost target to the window, including the elements
+   * inside open shadow trees
+   */
+  composedPath: EventTarget[];
+  /**
+   * The virtual target under the pointer, resolved by a hit test when the pointer went down.
+   * Null when the pointer isn't over a virtual target.
+   */
+  virtualTarget: VirtualTarget | null;
   /** Timestamp when the event occurred */
   timeStamp: number;
   /** Type of pointer event: 'pointerdown', 'pointermove', 'pointerup', etc. */
@@ -44,12 +65,130 @@ export type PointerData = {
   width: number;
   /** Height of the contact area in CSS pixels */
   height: number;
+  /** Angle between the Y-Z plane and the plane of the pen and the Y axis, from -90 to 90 degrees */
+  tiltX: number;
+  /** Angle between the X-Z plane and the plane of the pen and the X axis, from -90 to 90 degrees */
+  tiltY: number;
+  /** Clockwise rotation of the pen around its own axis, from 0 to 359 degrees */
+  twist: number;
+  /** Angle between the pen and the surface, from 0 (parallel) to π/2 (perpendicular) radians */
+  altitudeAngle: number;
+  /** Angle of the pen around the Z axis, from 0 to 2π radians, clockwise from the X axis */
+  azimuthAngle: number;
+  /** Pressure on the barrel of the pen, like an airbrush wheel, from -1 to 1 */
+  tangentialPressure: number;
   /** Indicates the type of pointing device: 'mouse', 'touch', or 'pen' */
   pointerType: string;
+  /**
+   * The button whose state changed with this event: 0 for the primary button, 1 for the
+   * auxiliary (middle) button, 2 for the secondary (right) button, -1 when none changed
+   */
+  button: number;
+  /**
+   * The pressed buttons, as a bitmask: 1 for the primary button, 2 for the secondary (right)
+   * button, 4 for the auxiliary (middle) button.
+   * Released pointers keep the buttons they pressed before their release.
+   */
+  buttons: number;
+  /**
+   * The samples merged by the browser into this event, like the positions of a fast pen stroke
+   * between two frames, from oldest to newest.
+   * Only contains the sample of this event where the browser doesn't provide them.
+   */
+  coalescedSamples: PointerSample[];
+  /**
+   * The samples the browser predicts the pointer will reach next, from nearest to furthest.
+   * Only contains the sample of this event where the browser doesn't provide them.
+   */
+  predictedSamples: PointerSample[];
   /** Reference to the original browser PointerEvent */
   srcEvent: PointerEvent;
 };
 
+/**
+ * The position and stylus data of a single pointer sample, like a coalesced or predicted event
+ */
+export type PointerSample = Pick<
+  PointerData,
+  | 'clientX'
+  | 'clientY'
+  | 'pageX'
+  | 'pageY'
+  | 'timeStamp'
+  | 'pressure'
+  | 'tiltX'
+  | 'tiltY'
+  | 'twist'
+  | 'altitudeAngle'
+  | 'azimuthAngle'
+  | 'tangentialPressure'
+>;
+
+/**
+ * Function resolving the virtual target under a point of an element, like the object of a
+ * canvas scene under the pointer.
+ *
+ * @param x - X-coordinate relative to the left edge of the element
+ * @param y - Y-coordinate relative to the top edge of the element
+ * @returns The id of the virtual target, or null if there is none at this point
+ */
+export type HitTestFunction = (x: number, y: number) => string | null;
+
+/**
+ * Check if an event target is a DOM element that supports pointer capture.
+ * Element doesn't exist in environments without a DOM, like Web Workers or Node.
+ */
+function isElement(target: EventTarget | null): target is Element {
+  return typeof Element !== 'undefined' && target instanceof Element;
+}
+
+/**
+ * Create the sample of a pointer event, with its position and stylus data.
+ */
+function createPointerSample(event: PointerEvent): PointerSample {
+  // Some browsers only report the tilt angles of pens
+  const tiltX = event.tiltX ?? 0;
+  const tiltY = event.tiltY ?? 0;
+  const { altitudeAngle, azimuthAngle } = convertTiltToSpherical(tiltX, tiltY);
+
+  return {
+    clientX: event.clientX,
+    clientY: event.clientY,
+    pageX: event.pageX,
+    pageY: event.pageY,
+    timeStamp: event.timeStamp,
+    pressure: event.pressure,
+    tiltX,
+    tiltY,
+    twist: event.twist ?? 0,
+    altitudeAngle: (event.altitudeAngle as number | undefined) ?? altitudeAngle,
+    azimuthAngle: (event.azimuthAngle as number | undefined) ?? azimuthAngle,
+    tangentialPressure: event.tangentialPressure ?? 0,
+  };
+}
+
+/**
+ * Get the samples of the coalesced or predicted events of a pointer event.
+ * Falls back to the sample of the event itself where the browser doesn't provide them,
+ * like in older browsers, in insecure contexts or for synthetic events.
+ */
+function getPointerSamples(
+  event: PointerEvent,
+  sample: PointerSample,
+  method: 'getCoalescedEvents' | 'getPredictedEvents'
+): PointerSample[] {
+  const events = typeof event[method] === 'function' ? event[method]() : [];
+  return events.length > 0 ? events.map(createPointerSample) : [sample];
+}
+
+/**
+ * Check if a root is a shadow root.
+ * ShadowRoot doesn't exist in environments without a DOM, like Web Workers or Node.
+ */
+function isShadowRoot(root: EventTarget): root is ShadowRoot {
+  return typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot;
+}
+
 /**
  * Configuration options for initializing the PointerManager.
  */
@@ -57,11 +196,14 @@ export type PointerManagerOptions = {
   /**
    * Root element to attach pointer event listeners to.
    * Events within this element's bounds will be tracked.
+   *
+   * A shadow root can be used to track the events of a web component from inside it.
    */
-  root?: TargetElement;
+  root?: TargetElement | ShadowRoot;
 
   /**
    * CSS touch-action property to apply to the root element.
+   * Applied to the host element when the root is a shadow root.
    * Controls how the browser responds to touch input.
    *
    * Common values:
@@ -75,12 +217,31 @@ export type PointerManagerOptions = {
   touchAction?: string;
 
   /**
-   * Whether to use passive event listeners for better scrolling performance.
-   * When true, listeners cannot call preventDefault() on touch events.
+   * Whether to use passive event listeners.
+   * When true, listeners cannot call preventDefault() on pointer events, and native scrolling
+   * is never blocked.
+   *
+   * Otherwise, native scrolling is blocked by a separate touchmove listener, only once a gesture
+   * claimed the pointers, so it stays free until a gesture is recognized. The listener is only
+   * added while gestures with the `preventDefault` option are registered.
    *
-   * @default true
+   * @default false
    */
   passive?: boolean;
+
+  /**
+   * Function scheduling the animation frames of the gestures, like the momentum of a pan.
+   *
+   * @default requestAnimationFrame, or a 16ms timeout where it isn't available
+   */
+  requestFrame?: FrameScheduler;
+
+  /**
+   * Function scheduling the timers of the gestures, like the duration of a press.
+   *
+   * @default setTimeout
+   */
+  requestTimeout?: TimeoutScheduler;
 };
 
 /**
@@ -95,8 +256,11 @@ export type PointerManagerOptions = {
  * simultaneous pointers.
  */
 export class PointerManager {
-  /** Root element where pointer events are captured */
-  private root: HTMLElement;
+  /** Root where pointer events are captured, which can also be a shadow root */
+  private root: TargetElement | ShadowRoot;
+
+  /** Element of the root, the host of a shadow root, which gets the touch-action and blur */
+  private rootElement: TargetElement;
 
   /** CSS touch-action property value applied to the root element */
   private touchAction: string;
@@ -104,17 +268,41 @@ export class PointerManager {
   /** Whether to use passive event listeners */
   private passive: boolean;
 
+  /** Function scheduling the animation frames of the gestures */
+  private frameScheduler: FrameScheduler;
+
+  /** Function scheduling the timers of the gestures */
+  private timeoutScheduler: TimeoutScheduler;
+
   /** Map of all currently active pointers by their pointerId */
   private pointers: Map<number, PointerData> = new Map();
 
+  /** Hit tests resolving the virtual targets under the pointers, by element */
+  private hitTests: Map<HTMLElement, { root: VirtualTarget; hitTest: HitTestFunction }> = new Map();
+
+  /** Pointers claimed by a recognized gesture, which the browser must no longer handle */
+  private claimedPointers: Set<number> = new Set();
+
+  /** Virtual target hovered by each pointer, used to dispatch enter and leave events */
+  private hoveredTargets: Map<number, VirtualTarget> = new Map();
+
+  /** Elements with gestures driven by the secondary button, once per gesture */
+  private secondaryButtonElements: TargetElement[] = [];
+
+  /** Number of gestures blocking the native scrolling once they claim the pointers */
+  private scrollBlockingGestures = 0;
+
   /** Set of registered gesture handlers that receive pointer events */
   private gestureHandlers: Set<(pointers: Map<number, PointerData>, event: PointerEvent) => void> =
     new Set();
 
   public constructor(options: PointerManagerOptions) {
-    this.root = (options.root ?? document.documentElement) as HTMLElement;
+    this.root = options.root ?? document.documentElement;
+    this.rootElement = isShadowRoot(this.root) ? (this.root.host as HTMLElement) : this.root;
     this.touchAction = options.touchAction || 'auto';
-    this.passive = options.passive !== false;
+    this.passive = options.passive ?? false;
+    this.frameScheduler = options.requestFrame ?? requestFrame;
+    this.timeoutScheduler = options.requestTimeout ?? requestTimeout;
 
     this.setupEventListeners();
   }
@@ -139,6 +327,36 @@ export class PointerManager {
     };
   }
 
+  /**
+   * Get the element of the root, which is the host element when the root is a shadow root.
+   *
+   * @returns The root element
+   */
+  public getRootElement(): TargetElement {
+    return this.rootElement;
+  }
+
+  /**
+   * Schedule a callback for the next animation frame of the gestures.
+   *
+   * @param callback - The function to call on the next frame, with the time of the frame
+   * @returns Function cancelling the scheduled callback
+   */
+  public requestFrame(callback: (time: number) => void): () => void {
+    return this.frameScheduler(callback);
+  }
+
+  /**
+   * Schedule a callback of the gestures after a delay.
+   *
+   * @param callback - The function to call after the delay
+   * @param delay - The delay in milliseconds
+   * @returns Function cancelling the scheduled callback
+   */
+  public requestTimeout(callback: () => void, delay: number): () => void {
+    return this.timeoutScheduler(callback, delay);
+  }
+
   /**
    * Get a copy of the current active pointers map.
    *
@@ -151,6 +369,138 @@ export class PointerManager {
     return new Map(this.pointers);
   }
 
+  /**
+   * Claim pointers for a recognized gesture, so the browser stops handling them natively,
+   * like scrolling the page while panning.
+   *
+   * Until then, the browser is free to scroll. Claimed pointers are released when they go up
+   * or are cancelled.
+   *
+   * @param pointerIds - The ids of the pointers used by the gesture
+   */
+  public claimPointers(pointerIds: number[]): void {
+    pointerIds
+      .filter(pointerId => this.pointers.has(pointerId))
+      .forEach(pointerId => this.claimedPointers.add(pointerId));
+  }
+
+  /**
+   * Let the gestures of an element be driven by the secondary (right) button.
+   *
+   * Pressing the secondary button opens the context menu, which interrupts all gestures.
+   * While the button is pressed over the element, the context menu is prevented instead.
+   *
+   * @param element - The element of the gesture
+   * @returns A function to call when the gesture no longer uses the secondary button
+   */
+  public useSecondaryButton(element: TargetElement): () => void {
+    this.secondaryButtonElements.push(element);
+
+    return () => {
+      const index = this.secondaryButtonElements.indexOf(element);
+      if (index !== -1) {
+        this.secondaryButtonElements.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Let a gesture block the native scrolling once it claims the pointers.
+   *
+   * Scrolling can only be blocked from a non-passive touchmove listener, which delays the
+   * scrolling of the whole root. It is only added while such gestures are registered, and never
+   * with passive listeners.
+   *
+   * @returns A function to call when the gesture no longer blocks the scrolling
+   */
+  public useScrollBlocking(): () => void {
+    if (this.passive) {
+      return () => {};
+    }
+
+    this.scrollBlockingGestures++;
+    if (this.scrollBlockingGestures === 1) {
+      this.root.addEventListener('touchmove', this.handleTouchMove as EventListener, {
+        passive: false,
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.scrollBlockingGestures--;
+      if (this.scrollBlockingGestures === 0) {
+        this.root.removeEventListener('touchmove', this.handleTouchMove as EventListener);
+      }
+    };
+  }
+
+  /**
+   * Register a hit test resolving the virtual targets of the pointers over an element.
+   *
+   * The ids returned by the hit test are looked up among the descendants of the root virtual
+   * target, and added as its children when they don't exist yet.
+   *
+   * @param element - The element rendering the virtual targets, like a canvas
+   * @param root - The virtual target representing the element
+   * @param hitTest - Function resolving the id of the virtual target under a point
+   */
+  public registerHitTest(
+    element: TargetElement,
+    root: VirtualTarget,
+    hitTest: HitTestFunction
+  ): void {
+    this.hitTests.set(element as HTMLElement, { root, hitTest });
+  }
+
+  /**
+   * Remove the hit test of an element
+   *
+   * @param element - The element rendering the virtual targets
+   */
+  public unregisterHitTest(element: TargetElement): void {
+    this.hitTests.delete(element as HTMLElement);
+  }
+
+  /**
+   * Get the element rendering a virtual target, through the hit test resolving it
+   *
+   * @param target - The virtual target
+   * @returns The element, or null if the target doesn't belong to a hit test
+   */
+  public getHitTestElement(target: VirtualTarget): HTMLElement | null {
+    const root = target.getRoot();
+    for (const [element, hitTest] of this.hitTests) {
+      if (hitTest.root === root) return element;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the virtual target of an event.
+   *
+   * Pointer events get the virtual target of their pointer, and other events with coordinates,
+   * like wheel events, are hit tested.
+   *
+   * @param event - The event to get the virtual target of
+   * @returns The virtual target, or null if the event isn't over a virtual target
+   */
+  public getVirtualTarget(event: Event): VirtualTarget | null {
+    if (event.target instanceof VirtualTarget) {
+      return event.target;
+    }
+
+    const pointer = 'pointerId' in event ? this.pointers.get(event.pointerId as number) : undefined;
+    if (pointer) {
+      return pointer.virtualTarget;
+    }
+
+    return 'clientX' in event ? this.hitTest(event as MouseEvent) : null;
+  }
+
   /**
    * Set up event listeners for pointer events on the root element.
    *
@@ -158,46 +508,51 @@ export class PointerManager {
    * the CSS touch-action property on the root element.
    */
   private setupEventListeners(): void {
-    // Set touch-action CSS property
-    if (this.touchAction !== 'auto') {
-      this.root.style.touchAction = this.touchAction;
+    // Set touch-action CSS property, except on virtual targets which have no style
+    if (this.touchAction !== 'auto' && 'style' in this.rootElement) {
+      this.rootElement.style.touchAction = this.touchAction;
     }
 
-    // Add event listeners
-    this.root.addEventListener('pointerdown', this.handlePointerEvent, { passive: this.passive });
-    this.root.addEventListener('pointermove', this.handlePointerEvent, { passive: this.passive });
-    this.root.addEventListener('pointerup', this.handlePointerEvent, { passive: this.passive });
-    this.root.addEventListener('pointercancel', this.handlePointerEvent, { passive: this.passive });
+    // Add event listeners, typed as generic listeners since shadow roots have no event map
+    const handlePointerEvent = this.handlePointerEvent as EventListener;
+    this.root.addEventListener('pointerdown', handlePointerEvent, { passive: this.passive });
+    this.root.addEventListener('pointermove', handlePointerEvent, { passive: this.passive });
+    this.root.addEventListener('pointerup', handlePointerEvent, { passive: this.passive });
+    this.root.addEventListener('pointercancel', handlePointerEvent, { passive: this.passive });
 
-    // Add blur and contextmenu event listeners to interrupt all gestures
-    this.root.addEventListener('blur', this.handleInterruptEvents);
+    // Add blur and contextmenu event listeners to interrupt all gestures.
+    // Focus events don't leave a shadow tree, its host gets them when the focus moves out of it.
+    this.rootElement.addEventListener('blur', this.handleInterruptEvents);
     this.root.addEventListener('contextmenu', this.handleInterruptEvents);
   }
 
   /**
    * Handle events that should interrupt all gestures.
    * This clears all active pointers and notifies handlers with a pointercancel-like event.
+   * The context menu of a secondary button driving a gesture is prevented instead.
    *
    * @param event - The event that triggered the interruption (blur or contextmenu)
    */
   private handleInterruptEvents = (event: Event): void => {
-    // Ignore contextmenu events on Android to prevent interference with long-press actions
-    if (event.type === 'contextmenu' && isOS(['Android'])) {
-      return;
+    if (event.type === 'contextmenu') {
+      // The secondary button drives a gesture, like a right-button pan, instead of the menu
+      if (this.isSecondaryButtonUsed()) {
+        event.preventDefault();
+        return;
+      }
+
+      // Ignore contextmenu events on Android to prevent interference with long-press actions
+      if (isOS(['Android'])) {
+        return;
+      }
     }
 
     // Force a reset even if there are no active pointers to ensure any lingering gesture state is cleared
     // We'll create a synthetic event with a special forceReset flag that gesture handlers can check
 
-    // Create a synthetic pointer cancel event
-    const cancelEvent = new PointerEvent('pointercancel', {
-      bubbles: true,
-      cancelable: true,
-    });
-
-    // Add a special property to the event to signal a complete reset
+    // Create a synthetic pointer cancel event with a special property to signal a complete reset
     // This will be used in gesture handlers to perform a more thorough cleanup
-    (cancelEvent as InternalEvent).forceReset = true;
+    const cancelEvent = createForceResetEvent();
 
     const firstPointer = this.pointers.values().next().value;
     if (this.pointers.size > 0 && firstPointer) {
@@ -223,6 +578,33 @@ export class PointerManager {
 
     // Clear all pointers
     this.pointers.clear();
+    this.claimedPointers.clear();
+    this.hoveredTargets.clear();
+  };
+
+  /**
+   * Check if the secondary button is pressed over an element with gestures driven by it
+   */
+  private isSecondaryButtonUsed(): boolean {
+    return Array.from(this.pointers.values()).some(
+      pointer =>
+        (pointer.buttons & 2) !== 0 &&
+        this.secondaryButtonElements.some(element =>
+          isWithinElement(element, pointer.virtualTarget ?? pointer.target, pointer.composedPath)
+        )
+    );
+  }
+
+  /**
+   * Block the native scrolling and zooming while a gesture has claimed the pointers.
+   *
+   * @param event - The touchmove event from the browser
+   */
+  private handleTouchMove = (event: TouchEvent): void => {
+    // The event isn't cancelable anymore once the browser started scrolling
+    if (this.claimedPointers.size > 0 && event.cancelable) {
+      event.preventDefault();
+    }
   };
 
   /**
@@ -242,7 +624,7 @@ export class PointerManager {
     if (type === 'pointerdown') {
       this.pointers.set(pointerId, this.createPointerData(event));
       // Capture the pointer to track it even when it leaves the element
-      if (event.target instanceof Element) {
+      if (isElement(event.target)) {
         try {
           event.target.setPointerCapture(pointerId);
         } catch (_) {
@@ -252,10 +634,14 @@ export class PointerManager {
     } else if (type === 'pointermove') {
       this.pointers.set(pointerId, this.createPointerData(event));
     }
+
+    if (type === 'pointerdown' || type === 'pointermove') {
+      this.updateHoveredTarget(event, this.pointers.get(pointerId)!.virtualTarget);
+    }
     // Remove pointer data on up or cancel
     else if (type === 'pointerup' || type === 'pointercancel') {
       // Release pointer capture on up or cancel
-      if (event.target instanceof Element) {
+      if (isElement(event.target)) {
         try {
           event.target.releasePointerCapture(pointerId);
         } catch (_) {
@@ -271,6 +657,12 @@ export class PointerManager {
 
       // Then remove the pointer
       this.pointers.delete(pointerId);
+      this.claimedPointers.delete(pointerId);
+
+      // Touch and pen pointers leave their target when they are released
+      if (type === 'pointercancel' || event.pointerType !== 'mouse') {
+        this.updateHoveredTarget(event, null);
+      }
       return;
     }
 
@@ -298,24 +690,104 @@ export class PointerManager {
    * @returns A new PointerData object representing this pointer
    */
   private createPointerData(event: PointerEvent): PointerData {
+    const isReleased = event.type === 'pointerup' || event.type === 'pointercancel';
+    const sample = createPointerSample(event);
+
     return {
       pointerId: event.pointerId,
-      clientX: event.clientX,
-      clientY: event.clientY,
-      pageX: event.pageX,
-      pageY: event.pageY,
+      ...sample,
       target: event.target,
-      timeStamp: event.timeStamp,
+      composedPath: event.composedPath(),
+      virtualTarget: this.resolveVirtualTarget(event),
       type: event.type,
       isPrimary: event.isPrimary,
-      pressure: event.pressure,
       width: event.width,
       height: event.height,
       pointerType: event.pointerType,
+      button: event.button,
+      buttons: isReleased
+        ? (this.pointers.get(event.pointerId)?.buttons ?? event.buttons)
+        : event.buttons,
+      coalescedSamples: getPointerSamples(event, sample, 'getCoalescedEvents'),
+      predictedSamples: getPointerSamples(event, sample, 'getPredictedEvents'),
       srcEvent: event,
     };
   }
 
+  /**
+   * Resolve the virtual target of a pointer event.
+   *
+   * Pressed pointers keep the virtual target they went down on, like with pointer capture.
+   *
+   * @param event - The original browser pointer event
+   * @returns The virtual target, or null if the pointer isn't over a virtual target
+   */
+  private resolveVirtualTarget(event: PointerEvent): VirtualTarget | null {
+    if (event.target instanceof VirtualTarget) {
+      return event.target;
+    }
+
+    const previous = this.pointers.get(event.pointerId);
+    const isPressed =
+      event.type === 'pointerup' || event.type === 'pointercancel' || event.buttons > 0;
+    if (previous && event.type !== 'pointerdown' && isPressed) {
+      return previous.virtualTarget;
+    }
+
+    return this.hitTest(event);
+  }
+
+  /**
+   * Hit test the virtual targets of the element under an event
+   *
+   * @param event - An event with coordinates, like a pointer or wheel event
+   * @returns The virtual target, or null if there is none under the event
+   */
+  private hitTest(event: MouseEvent): VirtualTarget | null {
+    for (const [element, { root, hitTest }] of this.hitTests) {
+      if (!isWithinElement(element, event.target, event.composedPath())) continue;
+
+      const rect = element.getBoundingClientRect();
+      const id = hitTest(event.clientX - rect.left, event.clientY - rect.top);
+      if (id === null) return null;
+
+      return root.findTarget(id) ?? root.createChild(id);
+    }
+
+    return null;
+  }
+
+  /**
+   * Dispatch pointerleave and pointerenter events when a pointer moves between virtual targets,
+   * since the browser only dispatches them to DOM elements.
+   *
+   * @param event - The pointer event that moved the pointer
+   * @param target - The virtual target now under the pointer
+   */
+  private updateHoveredTarget(event: PointerEvent, target: VirtualTarget | null): void {
+    const previousTarget = this.hoveredTargets.get(event.pointerId) ?? null;
+    if (previousTarget === target) return;
+
+    if (target) {
+      this.hoveredTargets.set(event.pointerId, target);
+    } else {
+      this.hoveredTargets.delete(event.pointerId);
+    }
+
+    // Like in the DOM, the events are dispatched to every target left or entered in the tree
+    const previousPath = previousTarget?.getPath() ?? [];
+    const path = target?.getPath() ?? [];
+
+    previousPath
+      .filter(node => !path.includes(node))
+      .forEach(node => node.dispatchEvent(createPointerEvent('pointerleave', event)));
+
+    path
+      .filter(node => !previousPath.includes(node))
+      .reverse()
+      .forEach(node => node.dispatchEvent(createPointerEvent('pointerenter', event)));
+  }
+
   /**
    * Clean up all event listeners and reset the PointerManager state.
    *
@@ -324,14 +796,20 @@ export class PointerManager {
    * internal state, and resets the singleton instance.
    */
   public destroy(): void {
-    this.root.removeEventListener('pointerdown', this.handlePointerEvent);
-    this.root.removeEventListener('pointermove', this.handlePointerEvent);
-    this.root.removeEventListener('pointerup', this.handlePointerEvent);
-    this.root.removeEventListener('pointercancel', this.handlePointerEvent);
-    this.root.removeEventListener('blur', this.handleInterruptEvents);
+    const handlePointerEvent = this.handlePointerEvent as EventListener;
+    this.root.removeEventListener('pointerdown', handlePointerEvent);
+    this.root.removeEventListener('pointermove', handlePointerEvent);
+    this.root.removeEventListener('pointerup', handlePointerEvent);
+    this.root.removeEventListener('pointercancel', handlePointerEvent);
+    this.root.removeEventListener('touchmove', this.handleTouchMove as EventListener);
+    this.scrollBlockingGestures = 0;
+    this.rootElement.removeEventListener('blur', this.handleInterruptEvents);
     this.root.removeEventListener('contextmenu', this.handleInterruptEvents);
 
     this.pointers.clear();
+    this.claimedPointers.clear();
+    this.hitTests.clear();
+    this.hoveredTargets.clear();
     this.gestureHandlers.clear();
   }
 }
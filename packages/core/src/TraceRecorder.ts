@@ -0,0 +1,335 @@
+/**
+ * TraceRecorder - Records the pointer streams of an element into a portable trace
+ *
+ * The recorder listens to the same events as the gesture recognizers:
+ * 1. Pointer events, through the handlers of the PointerManager
+ * 2. Wheel events on the element, like the TurnWheelGesture
+ * 3. Interruptions (blur, contextmenu) forwarded by the PointerManager
+ *
+ * Coordinates are stored relative to the element and times relative to the start of the
+ * recording, so traces can be replayed on any element at any time.
+ */
+
+import { Gesture } from './Gesture';
+import { PointerData, PointerManager } from './PointerManager';
+import { InternalEvent } from './types/InternalEvent';
+import { isWithinElement } from './utils';
+
+/**
+ * Version of the trace format, increased on breaking changes
+ */
+export const TRACE_VERSION = 1;
+
+/**
+ * Snapshot of a pointer in a trace
+ */
+export type GestureTracePointer = {
+  /** Unique identifier for this pointer */
+  pointerId: number;
+  /** X-coordinate relative to the left edge of the element */
+  x: number;
+  /** Y-coordinate relative to the top edge of the element */
+  y: number;
+  /** Type of the last pointer event of this pointer: 'pointerdown', 'pointermove', etc. */
+  type: string;
+  /** Whether this is the primary pointer in a multi-pointer scenario */
+  isPrimary: boolean;
+  /** Pressure value, ranges from 0 to 1 (1 is maximum pressure) */
+  pressure: number;
+  /** Width of the contact area in CSS pixels */
+  width: number;
+  /** Height of the contact area in CSS pixels */
+  height: number;
+  /** Angle between the Y-Z plane and the plane of the pen and the Y axis, from -90 to 90 degrees */
+  tiltX: number;
+  /** Angle between the X-Z plane and the plane of the pen and the X axis, from -90 to 90 degrees */
+  tiltY: number;
+  /** Clockwise rotation of the pen around its own axis, from 0 to 359 degrees */
+  twist: number;
+  /** Angle between the pen and the surface, from 0 (parallel) to π/2 (perpendicular) radians */
+  altitudeAngle: number;
+  /** Angle of the pen around the Z axis, from 0 to 2π radians, clockwise from the X axis */
+  azimuthAngle: number;
+  /** Pressure on the barrel of the pen, like an airbrush wheel, from -1 to 1 */
+  tangentialPressure: number;
+  /** Indicates the type of pointing device: 'mouse', 'touch', or 'pen' */
+  pointerType: string;
+  /** The button whose state changed with the event: 0 for the primary button, -1 when none */
+  button: number;
+  /** The pressed buttons, as a bitmask: 1 for the primary button, 2 for the secondary button */
+  buttons: number;
+};
+
+/**
+ * Pointer event recorded in a trace
+ */
+export type GestureTracePointerEvent = {
+  kind: 'pointer';
+  /** Type of pointer event: 'pointerdown', 'pointermove', 'pointerup' or 'pointercancel' */
+  type: string;
+  /** Time in milliseconds since the start of the recording */
+  time: number;
+  /** Identifier of the pointer that triggered the event */
+  pointerId: number;
+  /** Snapshot of all active pointers when the event occurred */
+  pointers: GestureTracePointer[];
+};
+
+/**
+ * Wheel event recorded in a trace
+ */
+export type GestureTraceWheelEvent = {
+  kind: 'wheel';
+  /** Time in milliseconds since the start of the recording */
+  time: number;
+  /** X-coordinate relative to the left edge of the element */
+  x: number;
+  /** Y-coordinate relative to the top edge of the element */
+  y: number;
+  /** Horizontal scroll amount */
+  deltaX: number;
+  /** Vertical scroll amount */
+  deltaY: number;
+  /** Scroll amount on the z-axis */
+  deltaZ: number;
+  /** Unit of the delta values */
+  deltaMode: number;
+};
+
+/**
+ * Interruption (blur, contextmenu) recorded in a trace, which resets every gesture
+ */
+export type GestureTraceInterruptEvent = {
+  kind: 'interrupt';
+  /** Time in milliseconds since the start of the recording */
+  time: number;
+};
+
+/**
+ * Any event recorded in a trace
+ */
+export type GestureTraceEvent =
+  | GestureTracePointerEvent
+  | GestureTraceWheelEvent
+  | GestureTraceInterruptEvent;
+
+/**
+ * Configuration of a gesture registered on the recorded element
+ */
+export type GestureTraceGesture = {
+  /** The name of the gesture, which identifies it on the element */
+  name: string;
+  /** The options of the gesture when the recording started */
+  options: Record<string, unknown>;
+};
+
+/**
+ * Portable recording of the interactions with an element
+ */
+export type GestureTrace = {
+  /** Version of the trace format */
+  version: typeof TRACE_VERSION;
+  /** Date at which the recording started, in milliseconds since the Unix epoch */
+  recordedAt: number;
+  /** Duration of the recording in milliseconds */
+  duration: number;
+  /** Size of the element when the recording started */
+  element: { width: number; height: number };
+  /** Gestures registered on the element when the recording started */
+  gestures: GestureTraceGesture[];
+  /** Recorded events, in chronological order */
+  events: GestureTraceEvent[];
+};
+
+/**
+ * Configuration options for the TraceRecorder
+ */
+export type TraceRecorderOptions = {
+  /** The element whose interactions are recorded, virtual targets have no size to record */
+  element: HTMLElement | SVGElement;
+  /** The PointerManager distributing the pointer events of the element */
+  pointerManager: PointerManager;
+  /** Get the gestures registered on the element, to store their configuration */
+  getGestures: () => Gesture<string>[];
+};
+
+/**
+ * Recorder for the pointer, wheel and interruption events of an element.
+ *
+ * Recorders are usually created with `GestureManager.createTraceRecorder()`.
+ *
+ * @example
+ * ```ts
+ * const recorder = gestureManager.createTraceRecorder(element);
+ * recorder.start();
+ *
+ * // Later, once the interaction to reproduce happened
+ * const trace = recorder.stop();
+ * upload(JSON.stringify(trace));
+ * ```
+ */
+export class TraceRecorder {
+  /** The element whose interactions are recorded */
+  private element: HTMLElement | SVGElement;
+
+  /** The PointerManager distributing the pointer events */
+  private pointerManager: PointerManager;
+
+  /** Get the gestures registered on the element */
+  private getGestures: () => Gesture<string>[];
+
+  /** The trace being recorded, null when not recording */
+  private trace: GestureTrace | null = null;
+
+  /** Time origin of the recording, on the same clock as the event timestamps */
+  private startTime = 0;
+
+  /** Function to unregister from the PointerManager when the recording stops */
+  private unregisterHandler: (() => void) | null = null;
+
+  constructor(options: TraceRecorderOptions) {
+    this.element = options.element;
+    this.pointerManager = options.pointerManager;
+    this.getGestures = options.getGestures;
+  }
+
+  /**
+   * Whether the recorder is currently recording
+   */
+  public isRecording(): boolean {
+    return this.trace !== null;
+  }
+
+  /**
+   * Start a new recording. Any recording in progress is discarded.
+   */
+  public start(): void {
+    this.stop();
+
+    const rect = this.element.getBoundingClientRect();
+    this.startTime = performance.now();
+    this.trace = {
+      version: TRACE_VERSION,
+      recordedAt: Date.now(),
+      duration: 0,
+      element: { width: rect.width, height: rect.height },
+      gestures: this.getGestures().map(gesture => ({
+        name: gesture.name,
+        options: gesture.getOptions(),
+      })),
+      events: [],
+    };
+
+    this.unregisterHandler = this.pointerManager.registerGestureHandler(this.handlePointerEvent);
+    this.element.addEventListener('wheel', this.handleWheelEvent as EventListener, {
+      capture: true,
+      passive: true,
+    });
+  }
+
+  /**
+   * Stop the recording
+   *
+   * @returns The recorded trace, or null if the recorder wasn't recording
+   */
+  public stop(): GestureTrace | null {
+    if (this.unregisterHandler) {
+      this.unregisterHandler();
+      this.unregisterHandler = null;
+    }
+    this.element.removeEventListener('wheel', this.handleWheelEvent as EventListener, {
+      capture: true,
+    });
+
+    const trace = this.trace;
+    if (trace) {
+      trace.duration = performance.now() - this.startTime;
+    }
+
+    this.trace = null;
+    return trace;
+  }
+
+  /**
+   * Record the pointer events distributed by the PointerManager
+   *
+   * @param pointers - Map of active pointers by pointer ID
+   * @param event - The original pointer event from the browser
+   */
+  private handlePointerEvent = (pointers: Map<number, PointerData>, event: PointerEvent): void => {
+    if (!this.trace) return;
+
+    // Interruptions are forwarded as synthetic pointercancel events
+    if ((event as InternalEvent).forceReset) {
+      this.trace.events.push({ kind: 'interrupt', time: this.getTime(event) });
+      return;
+    }
+
+    const rect = this.element.getBoundingClientRect();
+    const pointersArray = Array.from(pointers.values());
+
+    // Only record the interactions that involve the element
+    const isRelevant = pointersArray.some(pointer =>
+      isWithinElement(this.element, pointer.target, pointer.composedPath)
+    );
+    if (!isRelevant) return;
+
+    this.trace.events.push({
+      kind: 'pointer',
+      type: event.type,
+      time: this.getTime(event),
+      pointerId: event.pointerId,
+      pointers: pointersArray.map(pointer => ({
+        pointerId: pointer.pointerId,
+        x: pointer.clientX - rect.left,
+        y: pointer.clientY - rect.top,
+        type: pointer.type,
+        isPrimary: pointer.isPrimary,
+        pressure: pointer.pressure,
+        width: pointer.width,
+        height: pointer.height,
+        tiltX: pointer.tiltX,
+        tiltY: pointer.tiltY,
+        twist: pointer.twist,
+        altitudeAngle: pointer.altitudeAngle,
+        azimuthAngle: pointer.azimuthAngle,
+        tangentialPressure: pointer.tangentialPressure,
+        pointerType: pointer.pointerType,
+        button: pointer.button,
+        // Released pointers keep their buttons in the pointer data, but not in their events
+        buttons: pointer.srcEvent.buttons,
+      })),
+    });
+  };
+
+  /**
+   * Record the wheel events on the element
+   *
+   * @param event - The original wheel event from the browser
+   */
+  private handleWheelEvent = (event: WheelEvent): void => {
+    if (!this.trace) return;
+
+    const rect = this.element.getBoundingClientRect();
+
+    this.trace.events.push({
+      kind: 'wheel',
+      time: this.getTime(event),
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      deltaX: event.deltaX,
+      deltaY: event.deltaY,
+      deltaZ: event.deltaZ,
+      deltaMode: event.deltaMode,
+    });
+  };
+
+  /**
+   * Get the time of an event relative to the start of the recording
+   *
+   * @param event - The recorded event
+   */
+  private getTime(event: Event): number {
+    return Math.max(0, event.timeStamp - this.startTime);
+  }
+}
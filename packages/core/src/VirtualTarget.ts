@@ -0,0 +1,129 @@
+/**
+ * VirtualTarget - Node of a virtual target tree, standing in for DOM elements
+ *
+ * Virtual targets are used when there is no DOM, like in Web Workers, in Node or for the
+ * objects of canvas scenes. They implement the parts of the element API used by the gestures:
+ * event listeners, event dispatching and `contains`.
+ */
+
+/**
+ * Listener notified of every event dispatched on a virtual target tree
+ */
+export type VirtualTargetDispatchListener = (target: VirtualTarget, event: Event) => void;
+
+/**
+ * A node of a virtual target tree, identified by a unique id.
+ *
+ * @example
+ * ```ts
+ * const scene = new VirtualTarget('scene');
+ * const node = scene.createChild('node-1');
+ *
+ * scene.contains(node); // true
+ * ```
+ */
+export class VirtualTarget extends EventTarget {
+  /** Unique identifier of this target */
+  public readonly id: string;
+
+  /** The parent of this target, null for the root of the tree */
+  public readonly parent: VirtualTarget | null;
+
+  /** The direct children of this target */
+  private children: Set<VirtualTarget> = new Set();
+
+  /** Listeners notified of every event dispatched in the tree, only used on the root */
+  private dispatchListeners: Set<VirtualTargetDispatchListener> = new Set();
+
+  constructor(id: string, parent: VirtualTarget | null = null) {
+    super();
+    this.id = id;
+    this.parent = parent;
+    parent?.children.add(this);
+  }
+
+  /**
+   * Create a new target as a child of this target
+   *
+   * @param id - Unique identifier of the new target
+   * @returns The new target
+   */
+  public createChild(id: string): VirtualTarget {
+    return new VirtualTarget(id, this);
+  }
+
+  /**
+   * Get the direct children of this target
+   */
+  public getChildren(): VirtualTarget[] {
+    return Array.from(this.children);
+  }
+
+  /**
+   * Find a target by id among this target and its descendants
+   *
+   * @param id - The id of the target
+   * @returns The target, or null if there is none with this id
+   */
+  public findTarget(id: string): VirtualTarget | null {
+    if (this.id === id) return this;
+
+    for (const child of this.children) {
+      const target = child.findTarget(id);
+      if (target) return target;
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the root of the tree this target belongs to
+   */
+  public getRoot(): VirtualTarget {
+    return this.parent ? this.parent.getRoot() : this;
+  }
+
+  /**
+   * Get the targets from this target up to the root of its tree
+   */
+  public getPath(): VirtualTarget[] {
+    return this.parent ? [this, ...this.parent.getPath()] : [this];
+  }
+
+  /**
+   * Check if a target is this target or one of its descendants, like `Node.contains`
+   *
+   * @param other - The target to check
+   */
+  public contains(other: unknown): boolean {
+    return other instanceof VirtualTarget && other.getPath().includes(this);
+  }
+
+  /**
+   * Detach this target, and all its descendants, from its parent
+   */
+  public remove(): void {
+    this.parent?.children.delete(this);
+  }
+
+  /**
+   * Register a listener notified of every event dispatched on any target of the tree
+   *
+   * @param listener - Function receiving the target and the dispatched event
+   * @returns An unregister function that removes this listener when called
+   */
+  public addDispatchListener(listener: VirtualTargetDispatchListener): () => void {
+    const root = this.getRoot();
+    root.dispatchListeners.add(listener);
+
+    return () => {
+      root.dispatchListeners.delete(listener);
+    };
+  }
+
+  public dispatchEvent(event: Event): boolean {
+    const result = super.dispatchEvent(event);
+    this.getRoot().dispatchListeners.forEach(listener => listener(this, event));
+    return result;
+  }
+}
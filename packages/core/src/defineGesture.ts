@@ -0,0 +1,592 @@
+/**
+ * defineGesture - Public API to create custom pointer gestures without subclassing internals
+ *
+ * A gesture definition describes the gesture-specific options with their default values,
+ * the initial state, and a set of reducers that receive pointer events and return the
+ * state changes and the phase to emit. The resulting class handles the event emission,
+ * cloning, option updates and state resets, and plugs into the GestureManager type
+ * inference exactly like the built-in gestures.
+ */
+
+import { BrowserTouchGesture, GesturePhase, GestureState } from './Gesture';
+import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from './PointerGesture';
+import { PointerData } from './PointerManager';
+import { InternalEvent } from './types/InternalEvent';
+import { TargetElement } from './types/TargetElement';
+import { calculateCentroid, createEventName, getModifiers } from './utils';
+
+/**
+ * Options resolved from the base PointerGesture options, available to the reducers
+ */
+export type ResolvedPointerGestureOptions = {
+  /** Minimum number of pointers required to activate the gesture */
+  minPointers: number;
+  /** Maximum number of pointers allowed for this gesture to remain active */
+  maxPointers: number;
+  /** Distance threshold in pixels for gesture activation */
+  threshold: number;
+  /** Types of pointing devices that can trigger the gesture, undefined for all types */
+  pointerTypes: Array<'mouse' | 'touch' | 'pen'> | undefined;
+  /** Bitmask of the buttons that can trigger the gesture, undefined for any button */
+  buttons: number | undefined;
+};
+
+/**
+ * Information passed to the gesture reducers for each pointer event
+ */
+export type GestureReducerContext<
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+> = {
+  /** Pointers targeting the gesture's element or its children */
+  pointers: PointerData[];
+  /** The pointer event being processed */
+  event: PointerEvent;
+  /** The current state of the gesture */
+  state: Readonly<State>;
+  /** The current options of the gesture, including the base pointer options */
+  options: Readonly<Options & ResolvedPointerGestureOptions>;
+  /** Whether the gesture is currently active */
+  isActive: boolean;
+  /** The element the gesture is attached to */
+  element: TargetElement;
+};
+
+/**
+ * Value returned by a gesture reducer
+ *
+ * - 'start' activates the gesture, multi-phase gestures emit their start event
+ * - 'ongoing' emits an ongoing event while the gesture is active, single-phase gestures emit their event
+ * - 'end' emits the end event, or the event of single-phase gestures, and resets the gesture
+ * - 'cancel' emits the cancel and end events if the gesture was active, and resets the gesture
+ */
+export type GestureReducerResult<State extends Record<string, unknown>> = {
+  /** State changes to merge into the current state, applied before emitting */
+  state?: Partial<State>;
+  /** The phase to emit for this pointer event */
+  emit?: GesturePhase;
+  /** Whether to reset the gesture to its initial state without emitting any event */
+  reset?: boolean;
+};
+
+/**
+ * Reducer called for a pointer event type
+ *
+ * @returns The changes to apply to the gesture, or nothing to ignore the event
+ */
+export type GestureReducer<
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+> = (context: GestureReducerContext<Options, State>) => GestureReducerResult<State> | void;
+
+/**
+ * Description of a custom gesture, passed to `defineGesture()`
+ */
+export type GestureDefinition<
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+  EventData extends Record<string, unknown>,
+  SinglePhase extends boolean,
+  MutableStateKey extends keyof State,
+> = {
+  /**
+   * Gesture-specific options with their default values.
+   * The keys and value types define which options the gesture accepts.
+   */
+  options: Options;
+  /**
+   * The initial state of the gesture, restored whenever the gesture resets
+   */
+  initialState: State;
+  /**
+   * Whether the gesture emits a single event (like tap) instead of
+   * start, ongoing, end and cancel events (like pan)
+   *
+   * @default false
+   */
+  isSinglePhase?: SinglePhase;
+  /**
+   * State keys that can be changed at runtime through the `${name}ChangeState` event
+   *
+   * @default [] (no mutable state)
+   */
+  mutableState?: MutableStateKey[];
+  /**
+   * Default values for the base pointer options
+   */
+  defaults?: Partial<ResolvedPointerGestureOptions>;
+  /** Reducer for `pointerdown` events */
+  onPointerDown?: GestureReducer<Options, State>;
+  /** Reducer for `pointermove` events */
+  onPointerMove?: GestureReducer<Options, State>;
+  /** Reducer for `pointerup` events */
+  onPointerUp?: GestureReducer<Options, State>;
+  /** Reducer for `pointercancel` events */
+  onPointerCancel?: GestureReducer<Options, State>;
+  /**
+   * Get the browser touch gestures competing with the gesture, like scrolling while dragging.
+   * They are disabled with the touch-action of the elements the gesture is registered on.
+   *
+   * @default () => [] (all browser touch gestures are allowed)
+   */
+  getBlockedTouchGestures?: (
+    options: Options & ResolvedPointerGestureOptions
+  ) => BrowserTouchGesture[];
+  /**
+   * Compute the gesture-specific data added to every emitted event
+   */
+  getEventData?: (
+    context: Omit<GestureReducerContext<Options, State>, 'isActive'> & { phase: GesturePhase }
+  ) => EventData;
+};
+
+/**
+ * Configuration options for a gesture created with `defineGesture()`
+ */
+export type DefinedGestureOptions<
+  GestureName extends string,
+  Options extends Record<string, unknown>,
+> = PointerGestureOptions<GestureName> & Partial<Options>;
+
+/**
+ * Event data of a gesture created with `defineGesture()`
+ */
+export type DefinedGestureEventData<
+  EventData extends Record<string, unknown> = Record<never, never>,
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = PointerGestureEventData<CustomData> & EventData;
+
+/**
+ * Type definition for the CustomEvent created by a gesture created with `defineGesture()`
+ */
+export type DefinedGestureEvent<
+  EventData extends Record<string, unknown> = Record<never, never>,
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = CustomEvent<DefinedGestureEventData<EventData, CustomData>>;
+
+/**
+ * Constructor of a gesture class created with `defineGesture()`
+ */
+export type DefinedGestureConstructor<
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+  EventData extends Record<string, unknown>,
+  SinglePhase extends boolean,
+  MutableStateKey extends keyof State,
+> = new <GestureName extends string>(
+  options: DefinedGestureOptions<GestureName, Options>
+) => DefinedGesture<GestureName, Options, State, EventData, SinglePhase, MutableStateKey>;
+
+/**
+ * Base class of the gestures created with `defineGesture()`
+ *
+ * It runs the reducers of the gesture definition and takes care of activating, emitting,
+ * cancelling and resetting the gesture.
+ */
+export abstract class DefinedGesture<
+  GestureName extends string,
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+  EventData extends Record<string, unknown>,
+  SinglePhase extends boolean,
+  MutableStateKey extends keyof State,
+> extends PointerGesture<GestureName> {
+  protected state: GestureState & State;
+
+  protected readonly isSinglePhase!: SinglePhase;
+  protected readonly eventType!: DefinedGestureEvent<EventData>;
+  protected readonly optionsType!: DefinedGestureOptions<GestureName, Options>;
+  protected readonly mutableOptionsType!: Omit<typeof this.optionsType, 'name'>;
+  protected readonly mutableStateType!: [MutableStateKey] extends [never]
+    ? never
+    : Omit<Partial<typeof this.state>, Exclude<keyof State, MutableStateKey>>;
+
+  /** The definition this gesture was created from */
+  private definition: GestureDefinition<Options, State, EventData, SinglePhase, MutableStateKey>;
+
+  /** Current values of the gesture-specific options */
+  private options: Options;
+
+  constructor(
+    definition: GestureDefinition<Options, State, EventData, SinglePhase, MutableStateKey>,
+    options: DefinedGestureOptions<GestureName, Options>
+  ) {
+    super({
+      ...options,
+      minPointers: options.minPointers ?? definition.defaults?.minPointers,
+      maxPointers: options.maxPointers ?? definition.defaults?.maxPointers,
+      threshold: options.threshold ?? definition.defaults?.threshold,
+      pointerTypes: options.pointerTypes ?? definition.defaults?.pointerTypes,
+      buttons: options.buttons ?? definition.defaults?.buttons,
+    });
+
+    this.definition = definition;
+    this.options = { ...definition.options };
+    this.assignOptions(options);
+    this.state = { ...definition.initialState };
+  }
+
+  public getOptions(): DefinedGestureOptions<GestureName, Options> {
+    return {
+      ...super.getOptions(),
+      ...this.options,
+    };
+  }
+
+  public clone(
+    overrides?: Record<string, unknown>
+  ): DefinedGesture<GestureName, Options, State, EventData, SinglePhase, MutableStateKey> {
+    const GestureClass = this.constructor as DefinedGestureConstructor<
+      Options,
+      State,
+      EventData,
+      SinglePhase,
+      MutableStateKey
+    >;
+
+    return new GestureClass<GestureName>({
+      ...this.getOptions(),
+      // Apply any overrides passed to the method
+      ...overrides,
+    });
+  }
+
+  public destroy(): void {
+    this.resetState();
+    super.destroy();
+  }
+
+  protected updateOptions(options: typeof this.mutableOptionsType): void {
+    super.updateOptions(options);
+    this.assignOptions(options);
+  }
+
+  protected updateState(stateChanges: typeof this.mutableStateType): void {
+    const mutableState = this.definition.mutableState ?? [];
+    const changes = stateChanges as unknown as Partial<State>;
+
+    // Only apply the changes to the state keys declared as mutable
+    for (const key of mutableState) {
+      if (changes && key in changes) {
+        this.state[key] = changes[key] as State[MutableStateKey];
+      }
+    }
+  }
+
+  protected resetState(): void {
+    this.isActive = false;
+    this.originalTarget = null;
+    this.state = { ...this.definition.initialState };
+  }
+
+  /**
+   * Copy the gesture-specific options declared in the definition
+   *
+   * @param options - Object containing the options to update
+   */
+  private assignOptions(options: Record<string, unknown>): void {
+    for (const key of Object.keys(this.definition.options) as Array<keyof Options & string>) {
+      if (options[key] !== undefined) {
+        this.options[key] = options[key] as Options[keyof Options & string];
+      }
+    }
+  }
+
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    return this.definition.getBlockedTouchGestures?.(this.getReducerOptions()) ?? [];
+  }
+
+  /**
+   * Get the current options, including the base pointer options
+   */
+  private getReducerOptions(): Options & ResolvedPointerGestureOptions {
+    return {
+      ...this.options,
+      minPointers: this.minPointers,
+      maxPointers: this.maxPointers,
+      threshold: this.threshold,
+      pointerTypes: this.pointerTypes,
+      buttons: this.buttons,
+    };
+  }
+
+  /**
+   * Get the reducer of the definition for a pointer event type
+   *
+   * @param type - The type of the pointer event
+   */
+  private getReducer(type: string): GestureReducer<Options, State> | undefined {
+    switch (type) {
+      case 'pointerdown':
+        return this.definition.onPointerDown;
+      case 'pointermove':
+        return this.definition.onPointerMove;
+      case 'pointerup':
+        return this.definition.onPointerUp;
+      case 'pointercancel':
+        return this.definition.onPointerCancel;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Handle pointer events by running the matching reducer of the definition
+   */
+  protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    const pointersArray = Array.from(pointers.values());
+
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      this.applyPhase(this.element, 'cancel', pointersArray, event);
+      this.resetState();
+      return;
+    }
+
+    // Find which element (if any) is being targeted
+    const targetElement = this.getTargetElement(event);
+    if (!targetElement) return;
+
+    // Check if this gesture should be prevented by active gestures
+    if (this.shouldPreventGesture(targetElement)) {
+      if (this.isActive) {
+        // If the gesture was active but now should be prevented, end it gracefully
+        this.applyPhase(targetElement, 'cancel', pointersArray, event);
+      }
+      return;
+    }
+
+    const reducer = this.getReducer(event.type);
+    if (!reducer) return;
+
+    // Filter pointers to only include those targeting our element or its children
+    const relevantPointers = this.getRelevantPointers(pointersArray, targetElement);
+
+    // Check if we have enough pointers and not too many
+    if (relevantPointers.length < this.minPointers || relevantPointers.length > this.maxPointers) {
+      if (this.isActive) {
+        // Cancel the gesture if it was active
+        this.applyPhase(targetElement, 'cancel', relevantPointers, event);
+      }
+      return;
+    }
+
+    const result = reducer({
+      pointers: relevantPointers,
+      event,
+      state: this.state,
+      options: this.getReducerOptions(),
+      isActive: this.isActive,
+      element: targetElement,
+    });
+    if (!result) return;
+
+    if (result.state) {
+      this.state = { ...this.state, ...result.state };
+    }
+
+    if (result.emit) {
+      this.applyPhase(targetElement, result.emit, relevantPointers, event);
+    }
+
+    if (result.reset) {
+      this.resetState();
+    }
+  }
+
+  /**
+   * Update the gesture lifecycle for a phase returned by a reducer and emit the matching events
+   */
+  private applyPhase(
+    element: TargetElement,
+    phase: GesturePhase,
+    pointers: PointerData[],
+    event: PointerEvent
+  ): void {
+    const isSinglePhase = this.definition.isSinglePhase ?? false;
+
+    switch (phase) {
+      case 'start':
+        if (this.isActive) return;
+
+        // Store the original target element
+        this.originalTarget = element;
+        this.isActive = true;
+
+        if (!isSinglePhase) {
+          this.emitEvent(element, 'start', pointers, event);
+        }
+        break;
+
+      case 'ongoing':
+        if (isSinglePhase) {
+          this.recognize(element, 'ongoing', pointers, event);
+        } else if (this.isActive) {
+          this.emitEvent(element, 'ongoing', pointers, event);
+        }
+        break;
+
+      case 'end':
+        if (isSinglePhase) {
+          this.recognize(element, 'end', pointers, event);
+        } else if (this.isActive) {
+          this.emitEvent(element, 'end', pointers, event);
+        }
+        this.resetState();
+        break;
+
+      case 'cancel':
+        if (this.isActive) {
+          this.emitEvent(element, 'cancel', pointers, event);
+          if (!isSinglePhase) {
+            this.emitEvent(element, 'end', pointers, event);
+          }
+        }
+        this.resetState();
+        break;
+    }
+  }
+
+  /**
+   * Emit the event of a single-phase gesture, unless it has to wait for other gestures to fail.
+   * The deferred event is computed from the state at the time of the recognition.
+   */
+  private recognize(
+    element: TargetElement,
+    phase: GesturePhase,
+    pointers: PointerData[],
+    event: PointerEvent
+  ): void {
+    const state = { ...this.state };
+    this.requestRecognition(() => this.emitEvent(element, phase, pointers, event, state));
+  }
+
+  /**
+   * Emit the gesture events with the data computed by the definition
+   */
+  private emitEvent(
+    element: TargetElement,
+    phase: GesturePhase,
+    pointers: PointerData[],
+    event: PointerEvent,
+    state: GestureState & State = this.state
+  ): void {
+    const isSinglePhase = this.definition.isSinglePhase ?? false;
+
+    // Get list of active gestures
+    const activeGestures = this.gesturesRegistry.getActiveGestures(element);
+
+    const centroid = calculateCentroid(pointers);
+
+    const customEventData: DefinedGestureEventData<EventData> = {
+      gestureName: this.name,
+      centroid,
+      coordinates: this.getCoordinates(centroid),
+      target: event.target,
+      targetId: this.getTargetId(event),
+      srcEvent: event,
+      modifiers: getModifiers(event),
+      phase,
+      pointers,
+      timeStamp: event.timeStamp,
+      activeGestures,
+      customData: this.customData,
+      ...(this.definition.getEventData?.({
+        pointers,
+        event,
+        state,
+        options: this.getReducerOptions(),
+        element,
+        phase,
+      }) as EventData),
+    };
+
+    // Handle default event behavior
+    if (this.preventDefault) {
+      event.preventDefault();
+    }
+
+    if (this.stopPropagation) {
+      event.stopPropagation();
+    }
+
+    // Single-phase gestures only emit their own event, or a cancel event
+    const eventName =
+      isSinglePhase && phase !== 'cancel' ? this.name : createEventName(this.name, phase);
+
+    if (isSinglePhase && phase !== 'cancel') {
+      this.setRecognizerState('recognized');
+    } else {
+      this.updateRecognizerState(phase);
+    }
+
+    // Dispatch custom events on the element
+    const domEvent = new CustomEvent(eventName, {
+      bubbles: true,
+      cancelable: true,
+      detail: customEventData,
+    });
+
+    this.dispatchGestureEvent(element, domEvent);
+  }
+}
+
+/**
+ * Define a custom pointer gesture from a set of options, an initial state and reducers.
+ *
+ * The returned class can be used like any built-in gesture: its instances are passed to the
+ * GestureManager, and the events, options and state of the gesture are inferred from the
+ * definition.
+ *
+ * @example
+ * ```ts
+ * const DragGesture = defineGesture({
+ *   options: { axis: 'x' as 'x' | 'y' },
+ *   initialState: { start: 0, offset: 0 },
+ *   onPointerDown: ({ pointers, options }) => ({
+ *     state: { start: options.axis === 'x' ? pointers[0].clientX : pointers[0].clientY },
+ *     emit: 'start',
+ *   }),
+ *   onPointerMove: ({ pointers, state, options, isActive }) => {
+ *     if (!isActive) return;
+ *     const position = options.axis === 'x' ? pointers[0].clientX : pointers[0].clientY;
+ *     return { state: { offset: position - state.start }, emit: 'ongoing' };
+ *   },
+ *   onPointerUp: () => ({ emit: 'end' }),
+ *   onPointerCancel: () => ({ emit: 'cancel' }),
+ *   getEventData: ({ state }) => ({ offset: state.offset }),
+ * });
+ *
+ * const manager = new GestureManager({
+ *   gestures: [new DragGesture({ name: 'drag', axis: 'y' })],
+ * });
+ *
+ * const element = manager.registerElement('drag', document.querySelector('.slider'));
+ * element.addEventListener('drag', event => console.log(event.detail.offset));
+ * ```
+ *
+ * @param definition - The description of the gesture
+ * @returns A gesture class to instantiate with the gesture options
+ */
+export function defineGesture<
+  Options extends Record<string, unknown>,
+  State extends Record<string, unknown>,
+  EventData extends Record<string, unknown> = Record<never, never>,
+  SinglePhase extends boolean = false,
+  MutableStateKey extends keyof State = never,
+>(
+  definition: GestureDefinition<Options, State, EventData, SinglePhase, MutableStateKey>
+): DefinedGestureConstructor<Options, State, EventData, SinglePhase, MutableStateKey> {
+  return class<GestureName extends string> extends DefinedGesture<
+    GestureName,
+    Options,
+    State,
+    EventData,
+    SinglePhase,
+    MutableStateKey
+  > {
+    constructor(options: DefinedGestureOptions<GestureName, Options>) {
+      super(definition, options);
+    }
+  };
+}
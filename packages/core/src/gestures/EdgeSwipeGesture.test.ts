@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { EdgeSwipeGesture, EdgeSwipeGestureOptions } from './EdgeSwipeGesture';
+
+/**
+ * Swipe away from the left edge of an 800x600 viewport through the samples, then release
+ *
+ * @param samples - The positions of the pointer and their time, the first one going down
+ * @returns The events recognized during the swipe
+ */
+function swipe(
+  samples: Array<{ x: number; timeStamp: number }>,
+  releaseTime: number,
+  options: Partial<EdgeSwipeGestureOptions<'edgeSwipe'>> = {}
+) {
+  const engine = new HeadlessGestureEngine({
+    gestures: [
+      new EdgeSwipeGesture({
+        name: 'edgeSwipe',
+        edgeReference: 'viewport',
+        viewportSize: { width: 800, height: 600 },
+        ...options,
+      }),
+    ],
+  });
+  engine.createTarget('node');
+  engine.registerTarget('edgeSwipe', 'node');
+
+  const pointer = { targetId: 'node', pointerId: 1, clientY: 300 };
+  const [down, ...moves] = samples;
+  const last = samples[samples.length - 1];
+  const events = [
+    ...engine.processPointer({
+      ...pointer,
+      type: 'pointerdown',
+      clientX: down.x,
+      timeStamp: down.timeStamp,
+    }),
+    ...moves.flatMap(({ x, timeStamp }) =>
+      engine.processPointer({ ...pointer, type: 'pointermove', clientX: x, timeStamp })
+    ),
+    ...engine.processPointer({
+      ...pointer,
+      type: 'pointerup',
+      clientX: last.x,
+      timeStamp: releaseTime,
+    }),
+  ];
+
+  engine.destroy();
+  return events;
+}
+
+describe('EdgeSwipeGesture', () => {
+  it('reports the progress of the swipe over the travel distance', () => {
+    const events = swipe(
+      [
+        { x: 5, timeStamp: 0 },
+        { x: 65, timeStamp: 100 },
+        { x: 155, timeStamp: 200 },
+      ],
+      400
+    );
+
+    expect(
+      events.filter(event => event.type === 'edgeSwipe').map(event => event.detail.progress)
+    ).toEqual([0.2, 0.5]);
+  });
+
+  it('completes a swipe released past the completion progress', () => {
+    // The pointer rests before the release, the swipe completes by its distance only
+    const events = swipe(
+      [
+        { x: 5, timeStamp: 0 },
+        { x: 105, timeStamp: 100 },
+        { x: 205, timeStamp: 200 },
+      ],
+      400
+    );
+
+    expect(events.map(event => event.type)).toEqual([
+      'edgeSwipeStart',
+      'edgeSwipe',
+      'edgeSwipe',
+      'edgeSwipeEnd',
+    ]);
+    expect(events[3].detail).toMatchObject({ completed: true, distance: 200, velocity: 0 });
+  });
+
+  it('completes a fast swipe released before the completion progress', () => {
+    const events = swipe(
+      [
+        { x: 5, timeStamp: 0 },
+        { x: 25, timeStamp: 16 },
+        { x: 45, timeStamp: 32 },
+        { x: 65, timeStamp: 48 },
+      ],
+      48
+    );
+
+    expect(events.map(event => event.type).at(-1)).toBe('edgeSwipeEnd');
+    expect(events.at(-1)?.detail).toMatchObject({ completed: true, progress: 0.2 });
+    expect(events.at(-1)?.detail.velocity).toBeCloseTo(1250);
+  });
+
+  it('cancels a slow swipe released before the completion progress', () => {
+    const events = swipe(
+      [
+        { x: 5, timeStamp: 0 },
+        { x: 35, timeStamp: 100 },
+        { x: 65, timeStamp: 200 },
+      ],
+      400
+    );
+
+    expect(events.map(event => event.type)).toEqual([
+      'edgeSwipeStart',
+      'edgeSwipe',
+      'edgeSwipe',
+      'edgeSwipeCancel',
+      'edgeSwipeEnd',
+    ]);
+    expect(events[4].detail).toMatchObject({ completed: false, progress: 0.2 });
+  });
+
+  it('ignores pointers going down away from the edge', () => {
+    const events = swipe(
+      [
+        { x: 50, timeStamp: 0 },
+        { x: 350, timeStamp: 100 },
+      ],
+      100
+    );
+
+    expect(events).toEqual([]);
+  });
+
+  it('needs the viewport size outside of a browser', () => {
+    const events = swipe(
+      [
+        { x: 5, timeStamp: 0 },
+        { x: 305, timeStamp: 100 },
+      ],
+      300,
+      { viewportSize: undefined }
+    );
+
+    expect(events).toEqual([]);
+  });
+});
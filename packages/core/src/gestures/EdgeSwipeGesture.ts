@@ -0,0 +1,552 @@
+/**
+ * EdgeSwipeGesture - Detects swipes starting from an edge, like opening a drawer
+ *
+ * This gesture tracks pointer movements starting close to an edge of the element or the viewport,
+ * firing events when:
+ * - The pointers move away from the edge and pass the threshold distance (start)
+ * - The pointers keep moving, with the progress over the travel distance (ongoing)
+ * - The pointers are released, completing the swipe or cancelling it (end)
+ *
+ * The swipe completes when it is released past the completion progress, or flicked fast enough
+ * away from the edge. Otherwise it is cancelled, so the drawer can go back to its closed position.
+ */
+
+import { BrowserTouchGesture, GesturePhase, GestureState } from '../Gesture';
+import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
+import { PointerData } from '../PointerManager';
+import { InternalEvent } from '../types/InternalEvent';
+import { SmoothedVelocity } from '../types/SmoothedVelocity';
+import { TargetElement } from '../types/TargetElement';
+import {
+  calculateCentroid,
+  createEventName,
+  getModifiers,
+  getReleaseVelocity,
+  updateSmoothedVelocity,
+} from '../utils';
+import { VirtualTarget } from '../VirtualTarget';
+
+/**
+ * The edge an edge swipe starts from
+ */
+export type EdgeSwipeEdge = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * Configuration options for EdgeSwipeGesture
+ * Extends PointerGestureOptions with the edge and the completion settings
+ */
+export type EdgeSwipeGestureOptions<GestureName extends string> =
+  PointerGestureOptions<GestureName> & {
+    /**
+     * The edge the swipe starts from, it moves away from it
+     * @default 'left'
+     */
+    edge?: EdgeSwipeEdge;
+
+    /**
+     * Maximum distance in pixels between the edge and the centroid of the pointers
+     * when they go down
+     * @default 20
+     */
+    edgeSize?: number;
+
+    /**
+     * Whether the edge is the edge of the element or the edge of the viewport
+     * @default 'element'
+     */
+    edgeReference?: 'element' | 'viewport';
+
+    /**
+     * Size of the viewport in pixels, used for the viewport edges instead of the size of the window.
+     * Outside of a browser, like in a Worker or the headless engine, the viewport edges are only
+     * known from this option and the swipe never starts without it.
+     * @default undefined (the size of the window)
+     */
+    viewportSize?: { width: number; height: number };
+
+    /**
+     * Distance in pixels away from the edge at which the progress reaches 1,
+     * like the width of the drawer
+     * @default 300
+     */
+    travelDistance?: number;
+
+    /**
+     * Progress from 0 to 1 past which the released swipe completes
+     * @default 0.5
+     */
+    completionProgress?: number;
+
+    /**
+     * Velocity away from the edge in pixels per second at which the released swipe completes,
+     * whatever its progress. Releases as fast toward the edge cancel the swipe.
+     * @default 500
+     */
+    completionVelocity?: number;
+  };
+
+/**
+ * Event data specific to edge swipe gesture events
+ * Contains information about the progress and the completion of the swipe
+ */
+export type EdgeSwipeGestureEventData<
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = PointerGestureEventData<CustomData> & {
+  /** The edge the swipe started from */
+  edge: EdgeSwipeEdge;
+  /** The centroid position at the start of the gesture */
+  initialCentroid: { x: number; y: number };
+  /** Horizontal distance moved in pixels since the pointers went down */
+  deltaX: number;
+  /** Vertical distance moved in pixels since the pointers went down */
+  deltaY: number;
+  /** Distance moved away from the edge in pixels, negative when moving back past the start */
+  distance: number;
+  /** Distance moved away from the edge over the travel distance, from 0 to 1 */
+  progress: number;
+  /** Velocity away from the edge in pixels per second, negative when moving back */
+  velocity: number;
+  /** Whether the swipe completed, only true for the end event of a completed swipe */
+  completed: boolean;
+};
+
+/**
+ * Type definition for the CustomEvent created by EdgeSwipeGesture
+ */
+export type EdgeSwipeEvent<CustomData extends Record<string, unknown> = Record<string, unknown>> =
+  CustomEvent<EdgeSwipeGestureEventData<CustomData>>;
+
+/**
+ * State tracking for the EdgeSwipeGesture
+ */
+export type EdgeSwipeGestureState = GestureState & {
+  /** The initial centroid position, null until the pointers go down close to the edge */
+  startCentroid: { x: number; y: number } | null;
+  /** The most recent centroid position during the gesture */
+  lastCentroid: { x: number; y: number } | null;
+  /** Smoothed velocity of the latest movements, used to complete the swipe */
+  moveVelocity: SmoothedVelocity;
+};
+
+/**
+ * EdgeSwipeGesture class for handling swipes from an edge
+ *
+ * This gesture detects when users drag from an edge of an element or of the viewport,
+ * and dispatches the progress of the swipe, then whether it completed at the release.
+ */
+export class EdgeSwipeGesture<GestureName extends string> extends PointerGesture<GestureName> {
+  protected state: EdgeSwipeGestureState = {
+    startCentroid: null,
+    lastCentroid: null,
+    moveVelocity: { x: 0, y: 0, timeStamp: null },
+  };
+
+  protected readonly isSinglePhase!: false;
+  protected readonly eventType!: EdgeSwipeEvent;
+  protected readonly optionsType!: EdgeSwipeGestureOptions<GestureName>;
+  protected readonly mutableOptionsType!: Omit<typeof this.optionsType, 'name'>;
+  protected readonly mutableStateType!: never;
+
+  /** The edge the swipe starts from */
+  private edge: EdgeSwipeEdge;
+
+  /** Maximum distance in pixels between the edge and the pointers going down */
+  private edgeSize: number;
+
+  /** Whether the edge is the edge of the element or the edge of the viewport */
+  private edgeReference: 'element' | 'viewport';
+
+  /** Size of the viewport used instead of the size of the window */
+  private viewportSize?: { width: number; height: number };
+
+  /** Distance in pixels away from the edge at which the progress reaches 1 */
+  private travelDistance: number;
+
+  /** Progress past which the released swipe completes */
+  private completionProgress: number;
+
+  /** Velocity away from the edge in pixels per second at which the released swipe completes */
+  private completionVelocity: number;
+
+  constructor(options: EdgeSwipeGestureOptions<GestureName>) {
+    super(options);
+    this.edge = options.edge ?? 'left';
+    this.edgeSize = options.edgeSize ?? 20;
+    this.edgeReference = options.edgeReference ?? 'element';
+    this.viewportSize = options.viewportSize;
+    this.travelDistance = options.travelDistance ?? 300;
+    this.completionProgress = options.completionProgress ?? 0.5;
+    this.completionVelocity = options.completionVelocity ?? 500;
+  }
+
+  public getOptions(): EdgeSwipeGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
+      edge: this.edge,
+      edgeSize: this.edgeSize,
+      edgeReference: this.edgeReference,
+      viewportSize: this.viewportSize,
+      travelDistance: this.travelDistance,
+      completionProgress: this.completionProgress,
+      completionVelocity: this.completionVelocity,
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): EdgeSwipeGesture<GestureName> {
+    return new EdgeSwipeGesture({
+      ...this.getOptions(),
+      // Apply any overrides passed to the method
+      ...overrides,
+    });
+  }
+
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    // Only the scrolling along the axis of the swipe competes with it
+    const blocked: BrowserTouchGesture[] = [this.isHorizontal() ? 'pan-x' : 'pan-y'];
+
+    // Swipes with several pointers also compete with the pinch zoom
+    if (this.minPointers > 1) {
+      blocked.push('pinch-zoom');
+    }
+
+    return blocked;
+  }
+
+  public destroy(): void {
+    this.resetState();
+    super.destroy();
+  }
+
+  protected updateOptions(options: typeof this.mutableOptionsType): void {
+    super.updateOptions(options);
+
+    this.edge = options.edge ?? this.edge;
+    this.edgeSize = options.edgeSize ?? this.edgeSize;
+    this.edgeReference = options.edgeReference ?? this.edgeReference;
+    this.viewportSize = options.viewportSize ?? this.viewportSize;
+    this.travelDistance = options.travelDistance ?? this.travelDistance;
+    this.completionProgress = options.completionProgress ?? this.completionProgress;
+    this.completionVelocity = options.completionVelocity ?? this.completionVelocity;
+  }
+
+  public isTracking(): boolean {
+    // The swipe is tracked from the pointerdown close to the edge, before the threshold is reached
+    return this.isActive || this.state.startCentroid !== null;
+  }
+
+  protected resetState(): void {
+    this.isActive = false;
+    this.state = {
+      startCentroid: null,
+      lastCentroid: null,
+      moveVelocity: { x: 0, y: 0, timeStamp: null },
+    };
+  }
+
+  /**
+   * Handle pointer events for the edge swipe gesture
+   */
+  protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    const pointersArray = Array.from(pointers.values());
+
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      this.cancel(null, pointersArray, event);
+      return;
+    }
+
+    // Find which element (if any) is being targeted
+    const targetElement = this.getTargetElement(event);
+    if (!targetElement) return;
+
+    // Check if this gesture should be prevented by active gestures
+    if (this.shouldPreventGesture(targetElement)) {
+      this.cancel(targetElement, pointersArray, event);
+      return;
+    }
+
+    // Filter pointers to only include those targeting our element or its children
+    const relevantPointers = this.getRelevantPointers(pointersArray, targetElement);
+
+    // Check if we have enough pointers and not too many
+    if (relevantPointers.length < this.minPointers || relevantPointers.length > this.maxPointers) {
+      this.cancel(targetElement, relevantPointers, event);
+      return;
+    }
+
+    switch (event.type) {
+      case 'pointerdown':
+        // Only track swipes started with the required modifier keys
+        if (!this.isActive && !this.state.startCentroid && this.matchesModifiers(event)) {
+          const centroid = calculateCentroid(relevantPointers);
+
+          // Swipes starting away from the edge are left to the other gestures
+          const edgeDistance = this.getEdgeDistance(centroid);
+          if (edgeDistance === null || edgeDistance > this.edgeSize) break;
+
+          // Store the original target element
+          this.originalTarget = targetElement;
+
+          this.state.startCentroid = centroid;
+          this.state.lastCentroid = { ...centroid };
+        }
+        break;
+
+      case 'pointermove':
+        if (this.state.startCentroid && this.state.lastCentroid) {
+          const currentCentroid = calculateCentroid(relevantPointers);
+          this.state.moveVelocity = updateSmoothedVelocity(
+            this.state.moveVelocity,
+            currentCentroid.x - this.state.lastCentroid.x,
+            currentCentroid.y - this.state.lastCentroid.y,
+            event.timeStamp
+          );
+          this.state.lastCentroid = currentCentroid;
+
+          if (this.isActive) {
+            this.emitEdgeSwipeEvent(targetElement, 'ongoing', relevantPointers, event);
+            break;
+          }
+
+          const deltaX = currentCentroid.x - this.state.startCentroid.x;
+          const deltaY = currentCentroid.y - this.state.startCentroid.y;
+          const distance = this.getDistance(this.state.startCentroid, currentCentroid);
+          const crossDistance = Math.abs(this.isHorizontal() ? deltaY : deltaX);
+
+          // Wait until the pointers move past the threshold
+          if (
+            Math.max(Math.abs(distance), crossDistance) < this.threshold ||
+            (!distance && !crossDistance)
+          ) {
+            break;
+          }
+
+          // Movements along the edge, like a scroll, or toward it can't be an edge swipe
+          if (distance <= crossDistance) {
+            this.setRecognizerState('failed');
+            this.resetState();
+            break;
+          }
+
+          this.isActive = true;
+          this.emitEdgeSwipeEvent(targetElement, 'start', relevantPointers, event);
+          this.emitEdgeSwipeEvent(targetElement, 'ongoing', relevantPointers, event);
+        }
+        break;
+
+      case 'pointerup':
+      case 'pointercancel':
+        if (this.isActive) {
+          // The swipe goes on while enough pointers are down
+          if (
+            relevantPointers.filter(p => p.type !== 'pointerup' && p.type !== 'pointercancel')
+              .length >= this.minPointers
+          ) {
+            break;
+          }
+
+          // The pointers which stopped moving before the release have no velocity
+          this.state.moveVelocity = getReleaseVelocity(this.state.moveVelocity, event.timeStamp);
+
+          if (event.type === 'pointerup' && this.isCompleted()) {
+            this.emitEdgeSwipeEvent(targetElement, 'end', relevantPointers, event, true);
+            this.resetState();
+          } else {
+            this.cancel(targetElement, relevantPointers, event);
+          }
+        } else {
+          if (this.state.startCentroid) {
+            // Released before reaching the threshold, the swipe can't be recognized anymore
+            this.setRecognizerState('failed');
+          }
+          this.resetState();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Whether the horizontal axis is the axis of the swipe
+   */
+  private isHorizontal(): boolean {
+    return this.edge === 'left' || this.edge === 'right';
+  }
+
+  /**
+   * Get the distance moved away from the edge between two points
+   */
+  private getDistance(from: { x: number; y: number }, to: { x: number; y: number }): number {
+    switch (this.edge) {
+      case 'left':
+        return to.x - from.x;
+      case 'right':
+        return from.x - to.x;
+      case 'top':
+        return to.y - from.y;
+      case 'bottom':
+        return from.y - to.y;
+    }
+  }
+
+  /**
+   * Get the distance between a point and the edge, in pixels
+   *
+   * @param point - The point in viewport coordinates
+   * @returns The distance, or null when the bounds of the edge aren't known
+   */
+  private getEdgeDistance(point: { x: number; y: number }): number | null {
+    const bounds = this.getEdgeBounds();
+    if (!bounds) return null;
+
+    switch (this.edge) {
+      case 'left':
+        return point.x - bounds.left;
+      case 'right':
+        return bounds.right - point.x;
+      case 'top':
+        return point.y - bounds.top;
+      case 'bottom':
+        return bounds.bottom - point.y;
+    }
+  }
+
+  /**
+   * Get the bounds the edge belongs to, in viewport coordinates.
+   * Virtual targets use the box of their hit test element, and the viewport without one.
+   *
+   * @returns The bounds, or null outside of a browser without a viewport size
+   */
+  private getEdgeBounds(): { left: number; top: number; right: number; bottom: number } | null {
+    if (this.edgeReference === 'element') {
+      const element =
+        this.element instanceof VirtualTarget
+          ? this.pointerManager.getHitTestElement(this.element)
+          : this.element;
+
+      if (element) return element.getBoundingClientRect();
+    }
+
+    if (this.viewportSize) {
+      return { left: 0, top: 0, right: this.viewportSize.width, bottom: this.viewportSize.height };
+    }
+
+    if (typeof window === 'undefined') return null;
+
+    return { left: 0, top: 0, right: window.innerWidth, bottom: window.innerHeight };
+  }
+
+  /**
+   * Get the velocity away from the edge, in pixels per second
+   */
+  private getVelocity(): number {
+    return this.getDistance({ x: 0, y: 0 }, this.state.moveVelocity);
+  }
+
+  /**
+   * Get the distance moved away from the edge over the travel distance, from 0 to 1
+   */
+  private getProgress(distance: number): number {
+    if (this.travelDistance <= 0) return distance > 0 ? 1 : 0;
+    return Math.min(1, Math.max(0, distance / this.travelDistance));
+  }
+
+  /**
+   * Whether the released swipe completes, from its progress and its velocity
+   */
+  private isCompleted(): boolean {
+    const { startCentroid, lastCentroid } = this.state;
+    if (!startCentroid || !lastCentroid) return false;
+
+    const velocity = this.getVelocity();
+
+    // Flicks decide whatever the progress, so a swipe can be thrown open or closed
+    if (velocity >= this.completionVelocity) return true;
+    if (velocity <= -this.completionVelocity) return false;
+
+    return (
+      this.getProgress(this.getDistance(startCentroid, lastCentroid)) >= this.completionProgress
+    );
+  }
+
+  /**
+   * Emit edge swipe events with the progress of the swipe
+   */
+  private emitEdgeSwipeEvent(
+    element: TargetElement,
+    phase: GesturePhase,
+    pointers: PointerData[],
+    event: PointerEvent,
+    completed = false
+  ): void {
+    const { startCentroid, lastCentroid } = this.state;
+    if (!startCentroid || !lastCentroid) return;
+
+    const distance = this.getDistance(startCentroid, lastCentroid);
+
+    // Get list of active gestures
+    const activeGestures = this.gesturesRegistry.getActiveGestures(element);
+
+    // Create custom event data
+    const customEventData: EdgeSwipeGestureEventData = {
+      gestureName: this.name,
+      edge: this.edge,
+      initialCentroid: startCentroid,
+      centroid: lastCentroid,
+      coordinates: this.getCoordinates(lastCentroid),
+      target: event.target,
+      targetId: this.getTargetId(event),
+      srcEvent: event,
+      modifiers: getModifiers(event),
+      phase,
+      pointers,
+      timeStamp: event.timeStamp,
+      deltaX: lastCentroid.x - startCentroid.x,
+      deltaY: lastCentroid.y - startCentroid.y,
+      distance,
+      progress: this.getProgress(distance),
+      velocity: this.getVelocity(),
+      completed,
+      activeGestures,
+      customData: this.customData,
+    };
+
+    // Event names to trigger
+    const eventName = createEventName(this.name, phase);
+
+    this.updateRecognizerState(phase);
+
+    // Dispatch custom events on the element
+    const domEvent = new CustomEvent(eventName, {
+      bubbles: true,
+      cancelable: true,
+      detail: customEventData,
+    });
+
+    this.dispatchGestureEvent(element, domEvent);
+
+    // Apply preventDefault/stopPropagation if configured
+    if (this.preventDefault) {
+      event.preventDefault();
+    }
+
+    if (this.stopPropagation) {
+      event.stopPropagation();
+    }
+  }
+
+  /**
+   * Cancel the current gesture, the swipe ends without completing
+   */
+  private cancel(
+    element: TargetElement | null,
+    pointers: PointerData[],
+    event: PointerEvent
+  ): void {
+    if (this.isActive) {
+      const el = element ?? this.element;
+      this.emitEdgeSwipeEvent(el, 'cancel', pointers, event);
+      this.emitEdgeSwipeEvent(el, 'end', pointers, event);
+    }
+    this.resetState();
+  }
+}
@@ -9,21 +9,30 @@
  * Unlike other gestures which often require specific actions to trigger,
  * the move gesture fires automatically when pointers interact with the target element.
  *
- * This gesture only works with mouse pointers, not touch or pen.
+ * By default, this gesture only works with hovering pointers: mouse and pen, not touch.
  */
 
 import { ActiveGesturesRegistry } from '../ActiveGesturesRegistry';
 import { GesturePhase, GestureState } from '../Gesture';
+import { GestureEventBatcher } from '../GestureEventBatcher';
 import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
-import { PointerData, PointerManager } from '../PointerManager';
+import { PointerData, PointerManager, PointerSample } from '../PointerManager';
+import { InternalEvent } from '../types/InternalEvent';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, createEventName } from '../utils';
+import { calculateCentroid, createEventName, getModifiers } from '../utils';
 
 /**
  * Configuration options for the MoveGesture
  * Extends the base PointerGestureOptions
  */
-export type MoveGestureOptions<GestureName extends string> = PointerGestureOptions<GestureName>;
+export type MoveGestureOptions<GestureName extends string> = PointerGestureOptions<GestureName> & {
+  /**
+   * Types of pointing devices that can trigger the gesture.
+   *
+   * @default ['mouse', 'pen']
+   */
+  pointerTypes?: Array<'mouse' | 'touch' | 'pen'>;
+};
 
 /**
  * Event data specific to move gesture events
@@ -31,7 +40,12 @@ export type MoveGestureOptions<GestureName extends string> = PointerGestureOptio
  */
 export type MoveGestureEventData<
   CustomData extends Record<string, unknown> = Record<string, unknown>,
-> = PointerGestureEventData<CustomData> & {};
+> = PointerGestureEventData<CustomData> & {
+  /** The samples merged by the browser into the pointer event, from oldest to newest */
+  coalescedSamples: PointerSample[];
+  /** The samples the browser predicts the pointer will reach next */
+  predictedSamples: PointerSample[];
+};
 
 /**
  * Type definition for the CustomEvent created by MoveGesture
@@ -53,7 +67,7 @@ export type MoveGestureState = GestureState & {
  * This gesture detects when pointers enter, move within, or leave target elements,
  * and dispatches corresponding custom events.
  *
- * This gesture only works with hovering mouse pointers, not touch.
+ * By default, this gesture only works with hovering mouse and pen pointers, not touch.
  */
 export class MoveGesture<GestureName extends string> extends PointerGesture<GestureName> {
   protected state: MoveGestureState = {
@@ -71,7 +85,10 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
   private handleElementLeaveBound: (event: PointerEvent) => void;
 
   constructor(options: MoveGestureOptions<GestureName>) {
-    super(options);
+    super({
+      ...options,
+      pointerTypes: options.pointerTypes ?? ['mouse', 'pen'],
+    });
     // Pre-bind handlers to this instance to maintain reference equality
     this.handleElementEnterBound = this.handleElementEnter.bind(this);
     this.handleElementLeaveBound = this.handleElementLeave.bind(this);
@@ -79,13 +96,7 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
 
   public clone(overrides?: Record<string, unknown>): MoveGesture<GestureName> {
     return new MoveGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
-      preventIf: [...this.preventIf],
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
@@ -94,9 +105,10 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
   public init(
     element: TargetElement,
     pointerManager: PointerManager,
-    gestureRegistry: ActiveGesturesRegistry<GestureName>
+    gestureRegistry: ActiveGesturesRegistry<GestureName>,
+    eventBatcher?: GestureEventBatcher
   ): void {
-    super.init(element, pointerManager, gestureRegistry);
+    super.init(element, pointerManager, gestureRegistry, eventBatcher);
 
     // Add event listeners for entering and leaving elements
     // These are different from pointer events handled by PointerManager
@@ -129,7 +141,10 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
    * @param event The original pointer event
    */
   private handleElementEnter(event: PointerEvent): void {
-    if (event.pointerType !== 'mouse' && event.pointerType !== 'pen') return;
+    if (!this.isPointerAllowed(event)) return;
+
+    // A failed gesture waits for the current interaction to be over
+    if (this.recognizerState === 'failed') return;
 
     // Get pointers from the PointerManager
     const pointers = this.pointerManager.getPointers() || new Map();
@@ -152,7 +167,7 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
    * @param event The original pointer event
    */
   private handleElementLeave(event: PointerEvent): void {
-    if (event.pointerType !== 'mouse' && event.pointerType !== 'pen') return;
+    if (!this.isPointerTypeAllowed(event.pointerType)) return;
 
     if (!this.isActive) return;
 
@@ -171,11 +186,19 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
    * @param event The original pointer event
    */
   protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
-    if (
-      event.type !== 'pointermove' ||
-      (event.pointerType !== 'mouse' && event.pointerType !== 'pen')
-    )
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      // The interrupted move is cancelled, like the other gestures
+      if (this.isActive) {
+        const pointersArray = Array.from(pointers.values());
+        this.emitMoveEvent(this.element, 'cancel', pointersArray, event);
+        this.emitMoveEvent(this.element, 'end', pointersArray, event);
+      }
+      this.resetState();
       return;
+    }
+
+    if (event.type !== 'pointermove') return;
 
     if (this.preventDefault) {
       event.preventDefault();
@@ -214,6 +237,19 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
     this.emitMoveEvent(targetElement, 'ongoing', pointersArray, event);
   }
 
+  /**
+   * Merge two move events held in the same animation frame, keeping all their samples
+   */
+  protected mergeEventData(
+    previous: MoveGestureEventData,
+    next: MoveGestureEventData
+  ): MoveGestureEventData {
+    return {
+      ...next,
+      coalescedSamples: [...previous.coalescedSamples, ...next.coalescedSamples],
+    };
+  }
+
   /**
    * Emit move-specific events
    * @param element The DOM element the event is related to
@@ -236,11 +272,15 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
     const customEventData: MoveGestureEventData = {
       gestureName: this.name,
       centroid: currentPosition,
+      coordinates: this.getCoordinates(currentPosition),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: phase,
       pointers,
       timeStamp: event.timeStamp,
+      ...this.getPointerSamples(pointers, event),
       activeGestures,
       customData: this.customData,
     };
@@ -248,6 +288,8 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
     // Event names to trigger
     const eventName = createEventName(this.name, phase);
 
+    this.updateRecognizerState(phase);
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -255,6 +297,6 @@ export class MoveGesture<GestureName extends string> extends PointerGesture<Gest
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
   }
 }
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { PanGesture } from './PanGesture';
+
+/**
+ * Create an engine with a pan with momentum on a target, released after a fast drag
+ *
+ * @returns The engine, and the time of the release
+ */
+function releaseWithMomentum() {
+  const engine = new HeadlessGestureEngine({
+    gestures: [new PanGesture({ name: 'pan', momentum: true })],
+  });
+  engine.createTarget('node');
+  engine.registerTarget('pan', 'node');
+
+  const pointer = { targetId: 'node', pointerId: 1 };
+  engine.processPointer({ ...pointer, type: 'pointerdown', clientX: 0, clientY: 0, timeStamp: 0 });
+  [20, 40, 60].forEach((clientX, i) => {
+    engine.processPointer({
+      ...pointer,
+      type: 'pointermove',
+      clientX,
+      clientY: 0,
+      timeStamp: (i + 1) * 16,
+    });
+  });
+  const releaseEvents = engine.processPointer({
+    ...pointer,
+    type: 'pointerup',
+    clientX: 60,
+    clientY: 0,
+    timeStamp: 56,
+  });
+
+  return { engine, releaseEvents, releaseTime: 56 };
+}
+
+describe('PanGesture', () => {
+  it('recognizes a right-button drag despite the context menu of the right button', () => {
+    const engine = new HeadlessGestureEngine({
+      gestures: [new PanGesture({ name: 'pan', buttons: 2 })],
+    });
+    engine.createTarget('node');
+    engine.registerTarget('pan', 'node');
+
+    const pointer = { targetId: 'node', pointerId: 1, pointerType: 'mouse' as const };
+    const eventTypes: string[] = [];
+
+    engine
+      .processPointer({
+        ...pointer,
+        type: 'pointerdown',
+        clientX: 0,
+        clientY: 0,
+        timeStamp: 0,
+        button: 2,
+        buttons: 2,
+      })
+      .forEach(event => eventTypes.push(event.type));
+
+    // Browsers open the context menu when the right button goes down
+    const contextMenu = new Event('contextmenu', { cancelable: true });
+    engine.root.dispatchEvent(contextMenu);
+    expect(contextMenu.defaultPrevented).toBe(true);
+
+    engine
+      .processPointer({
+        ...pointer,
+        type: 'pointermove',
+        clientX: 20,
+        clientY: 0,
+        timeStamp: 16,
+        buttons: 2,
+      })
+      .forEach(event => eventTypes.push(event.type));
+    engine
+      .processPointer({
+        ...pointer,
+        type: 'pointerup',
+        clientX: 20,
+        clientY: 0,
+        timeStamp: 32,
+        button: 2,
+        buttons: 0,
+      })
+      .forEach(event => eventTypes.push(event.type));
+
+    expect(eventTypes).toEqual(['panStart', 'pan', 'panEnd']);
+
+    engine.destroy();
+  });
+
+  it('keeps moving with the momentum after the release until the momentum stops', () => {
+    const { engine, releaseEvents, releaseTime } = releaseWithMomentum();
+
+    // The pan doesn't end at the release
+    expect(releaseEvents.map(event => event.type)).not.toContain('panEnd');
+
+    const events = engine.advanceTime(releaseTime + 5000);
+    const momentumEvents = events.slice(0, -1);
+
+    expect(momentumEvents.length).toBeGreaterThan(0);
+    momentumEvents.forEach(event => {
+      expect(event.type).toBe('pan');
+      expect(event.detail.momentum).toBe(true);
+    });
+    expect(events[events.length - 1].type).toBe('panEnd');
+
+    const totalDeltas = momentumEvents.map(event => event.detail.totalDeltaX as number);
+    totalDeltas.slice(1).forEach((totalDeltaX, i) => {
+      expect(totalDeltaX).toBeGreaterThan(totalDeltas[i]);
+    });
+
+    // The momentum only depends on the timestamps of the samples
+    const replay = releaseWithMomentum();
+    expect(replay.engine.advanceTime(replay.releaseTime + 5000)).toEqual(events);
+
+    engine.destroy();
+    replay.engine.destroy();
+  });
+
+  it('cancels the momentum when a pointer goes down', () => {
+    const { engine, releaseTime } = releaseWithMomentum();
+
+    const momentumEvents = engine.advanceTime(releaseTime + 50);
+    expect(momentumEvents.length).toBeGreaterThan(0);
+    momentumEvents.forEach(event => expect(event.type).toBe('pan'));
+
+    const events = engine.processPointer({
+      targetId: 'node',
+      pointerId: 2,
+      type: 'pointerdown',
+      clientX: 100,
+      clientY: 0,
+      timeStamp: releaseTime + 60,
+    });
+    expect(events.map(event => event.type)).toEqual(['panCancel', 'panEnd']);
+
+    // No momentum frame is left after the cancel
+    expect(engine.advanceTime(releaseTime + 5000)).toEqual([]);
+
+    engine.destroy();
+  });
+});
@@ -7,14 +7,30 @@
  * - The drag movement ends (end)
  *
  * The gesture can be configured to recognize movement only in specific directions.
+ * With `momentum`, the pan keeps moving after the release with a decaying velocity,
+ * and ends once the velocity is small enough or a new pointer goes down.
  */
 
-import { GesturePhase, GestureState } from '../Gesture';
+import { BrowserTouchGesture, GesturePhase, GestureState } from '../Gesture';
 import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
-import { PointerData } from '../PointerManager';
+import { PointerData, PointerSample } from '../PointerManager';
+import { CoordinateSpaces } from '../types/CoordinateSpaces';
 import { InternalEvent } from '../types/InternalEvent';
+import { SmoothedVelocity } from '../types/SmoothedVelocity';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, createEventName, getDirection, isDirectionAllowed } from '../utils';
+import {
+  calculateCentroid,
+  createEventName,
+  getDirection,
+  getDirectionalTouchGestures,
+  getModifiers,
+  getReleaseVelocity,
+  isDirectionAllowed,
+  mapCoordinateSpaces,
+  mergePanDeltas,
+  transformVector,
+  updateSmoothedVelocity,
+} from '../utils';
 
 /**
  * The direction of movement for the pan gesture
@@ -29,6 +45,40 @@ export type Direction = {
   mainAxis: 'horizontal' | 'vertical' | 'diagonal' | null;
 };
 
+/**
+ * The distances moved by a pan gesture, in one coordinate space
+ */
+export type PanDeltas = {
+  /** Horizontal distance moved, like the `deltaX` of the event */
+  deltaX: number;
+  /** Vertical distance moved, like the `deltaY` of the event */
+  deltaY: number;
+  /** Total horizontal movement, like the `totalDeltaX` of the event */
+  totalDeltaX: number;
+  /** Total vertical movement, like the `totalDeltaY` of the event */
+  totalDeltaY: number;
+};
+
+/**
+ * Aggregates of the stylus data of the pointers over the whole pan gesture
+ */
+export type PanStylusData = {
+  /** Average pressure of the pointers, from 0 to 1 */
+  averagePressure: number;
+  /** Lowest pressure of the pointers, from 0 to 1 */
+  minPressure: number;
+  /** Highest pressure of the pointers, from 0 to 1 */
+  maxPressure: number;
+  /** Average pressure on the barrel of the pen, from -1 to 1 */
+  averageTangentialPressure: number;
+  /** Average tilt of the pen along the X axis, in degrees */
+  averageTiltX: number;
+  /** Average tilt of the pen along the Y axis, in degrees */
+  averageTiltY: number;
+  /** Average angle between the pen and the surface, in radians */
+  averageAltitudeAngle: number;
+};
+
 /**
  * Configuration options for PanGesture
  * Extends PointerGestureOptions with direction constraints
@@ -39,6 +89,24 @@ export type PanGestureOptions<GestureName extends string> = PointerGestureOption
    * If not specified, all directions are allowed
    */
   direction?: Array<'up' | 'down' | 'left' | 'right'>;
+  /**
+   * Keep emitting pan events after the release, with a decaying velocity,
+   * until the velocity drops below `momentumMinVelocity` or a new pointer goes down
+   * @default false
+   */
+  momentum?: boolean;
+  /**
+   * Fraction of the momentum velocity kept every 16 milliseconds, from 0 to 1.
+   * Lower values stop the momentum sooner.
+   * @default 0.95
+   */
+  momentumDeceleration?: number;
+  /**
+   * Velocity below which the momentum stops, in pixels per second.
+   * Releases slower than this don't start a momentum.
+   * @default 50
+   */
+  momentumMinVelocity?: number;
 };
 
 /**
@@ -58,6 +126,8 @@ export type PanGestureEventData<
   totalDeltaX: number;
   /** Total accumulated vertical movement in pixels */
   totalDeltaY: number;
+  /** The deltas in the local, normalized and SVG coordinate spaces of the element */
+  deltas: CoordinateSpaces<PanDeltas>;
   /** The direction of movement with vertical and horizontal components */
   direction: Direction;
   /** Horizontal velocity in pixels per second */
@@ -66,6 +136,20 @@ export type PanGestureEventData<
   velocityY: number;
   /** Total velocity magnitude in pixels per second */
   velocity: number;
+  /** Pressure and tilt aggregates of the pointer samples since the start of the gesture */
+  stylus: PanStylusData;
+  /**
+   * The samples merged by the browser into the pointer event, from oldest to newest.
+   * Use them to draw accurate strokes, as a single event can cover several positions.
+   */
+  coalescedSamples: PointerSample[];
+  /** The samples the browser predicts the pointer will reach next, to reduce the latency */
+  predictedSamples: PointerSample[];
+  /**
+   * Whether the event comes from the momentum after the release rather than from the pointers.
+   * Momentum events have the velocity of the momentum and no pointer samples.
+   */
+  momentum: boolean;
 };
 
 /**
@@ -94,8 +178,52 @@ export type PanGestureState = GestureState & {
   lastDirection: Direction;
   /** The last delta movement in pixels since the last event */
   lastDeltas: { x: number; y: number } | null;
+  /** Smoothed velocity of the latest movements since the threshold, used for the momentum */
+  moveVelocity: SmoothedVelocity;
+  /** The momentum after the release, null while the pointers drive the pan */
+  momentum: {
+    /** Current horizontal velocity in pixels per second */
+    velocityX: number;
+    /** Current vertical velocity in pixels per second */
+    velocityY: number;
+    /** Time stamp of the latest momentum event, on the timeline of the pointer events */
+    timeStamp: number;
+    /** The release event, used as the source event of the momentum events */
+    releaseEvent: PointerEvent;
+    /** The pointers at the release */
+    pointers: PointerData[];
+    /** The element the pan is emitted on */
+    element: TargetElement;
+  } | null;
+  /** Sums of the stylus data of the pointer samples, used for the stylus aggregates */
+  stylusSamples: {
+    count: number;
+    pressure: number;
+    minPressure: number;
+    maxPressure: number;
+    tangentialPressure: number;
+    tiltX: number;
+    tiltY: number;
+    altitudeAngle: number;
+  };
 };
 
+/**
+ * Creates empty sums of stylus samples
+ */
+function createStylusSamples(): PanGestureState['stylusSamples'] {
+  return {
+    count: 0,
+    pressure: 0,
+    minPressure: Infinity,
+    maxPressure: -Infinity,
+    tangentialPressure: 0,
+    tiltX: 0,
+    tiltY: 0,
+    altitudeAngle: 0,
+  };
+}
+
 /**
  * PanGesture class for handling panning/dragging interactions
  *
@@ -116,6 +244,9 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
       mainAxis: null,
     },
     lastDeltas: null,
+    moveVelocity: { x: 0, y: 0, timeStamp: null },
+    momentum: null,
+    stylusSamples: createStylusSamples(),
   };
 
   protected readonly isSinglePhase!: false;
@@ -129,6 +260,9 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
     | 'lastCentroid'
     | 'movementThresholdReached'
     | 'lastDirection'
+    | 'stylusSamples'
+    | 'moveVelocity'
+    | 'momentum'
   >;
 
   /**
@@ -137,26 +271,48 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
    */
   private direction: Array<'up' | 'down' | 'left' | 'right'>;
 
+  /** Whether the pan keeps moving after the release */
+  private momentum: boolean;
+
+  /** Fraction of the momentum velocity kept every 16 milliseconds */
+  private momentumDeceleration: number;
+
+  /** Velocity below which the momentum stops, in pixels per second */
+  private momentumMinVelocity: number;
+
+  /** Cancels the scheduled momentum frame, null when no frame is scheduled */
+  private cancelMomentumFrame: (() => void) | null = null;
+
   constructor(options: PanGestureOptions<GestureName>) {
     super(options);
     this.direction = options.direction || ['up', 'down', 'left', 'right'];
+    this.momentum = options.momentum ?? false;
+    this.momentumDeceleration = options.momentumDeceleration ?? 0.95;
+    this.momentumMinVelocity = options.momentumMinVelocity ?? 50;
+  }
+
+  public getOptions(): PanGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
+      direction: [...this.direction],
+      momentum: this.momentum,
+      momentumDeceleration: this.momentumDeceleration,
+      momentumMinVelocity: this.momentumMinVelocity,
+    };
   }
 
   public clone(overrides?: Record<string, unknown>): PanGesture<GestureName> {
     return new PanGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
-      direction: [...this.direction],
-      preventIf: [...this.preventIf],
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
   }
 
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    return getDirectionalTouchGestures(this.direction, this.minPointers);
+  }
+
   public destroy(): void {
     this.resetState();
     super.destroy();
@@ -166,9 +322,20 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
     super.updateOptions(options);
 
     this.direction = options.direction || this.direction;
+    this.momentum = options.momentum ?? this.momentum;
+    this.momentumDeceleration = options.momentumDeceleration ?? this.momentumDeceleration;
+    this.momentumMinVelocity = options.momentumMinVelocity ?? this.momentumMinVelocity;
+  }
+
+  public isTracking(): boolean {
+    // The pan is tracked from the first pointerdown, before the threshold is reached
+    return this.isActive || this.state.startCentroid !== null;
   }
 
   protected resetState(): void {
+    this.cancelMomentumFrame?.();
+    this.cancelMomentumFrame = null;
+
     this.isActive = false;
     this.state = {
       ...this.state,
@@ -176,6 +343,9 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
       startCentroid: null,
       lastCentroid: null,
       lastDeltas: null,
+      moveVelocity: { x: 0, y: 0, timeStamp: null },
+      momentum: null,
+      stylusSamples: createStylusSamples(),
       movementThresholdReached: false,
       lastDirection: {
         vertical: null,
@@ -196,7 +366,7 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
       // Reset all active pan gestures when we get a force reset event
       // Cancel any active gesture with a proper cancel event
 
-      this.cancel(event.target as null, pointersArray, event);
+      this.cancel(null, pointersArray, event);
       return;
     }
 
@@ -205,6 +375,12 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
 
     if (!targetElement) return;
 
+    // During the momentum the pointers no longer drive the pan, only a new pointer stops it
+    if (this.state.momentum) {
+      if (event.type !== 'pointerdown') return;
+      this.cancel(targetElement, this.state.momentum.pointers, event);
+    }
+
     // Check if this gesture should be prevented by active gestures
     if (this.shouldPreventGesture(targetElement)) {
       // If the gesture was active but now should be prevented, cancel it gracefully
@@ -224,7 +400,8 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
 
     switch (event.type) {
       case 'pointerdown':
-        if (!this.isActive && !this.state.startCentroid) {
+        // Only track pans started with the required modifier keys
+        if (!this.isActive && !this.state.startCentroid && this.matchesModifiers(event)) {
           // Store initial pointers
           relevantPointers.forEach(pointer => {
             this.state.startPointers.set(pointer.pointerId, pointer);
@@ -236,11 +413,18 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
           // Calculate and store the starting centroid
           this.state.startCentroid = calculateCentroid(relevantPointers);
           this.state.lastCentroid = { ...this.state.startCentroid };
+          relevantPointers.forEach(pointer => this.addStylusSample(pointer));
         }
         break;
 
       case 'pointermove':
         if (this.state.startCentroid && relevantPointers.length >= this.minPointers) {
+          // Only the pointer that moved has a new sample
+          const movedPointer = relevantPointers.find(p => p.pointerId === event.pointerId);
+          if (movedPointer) {
+            this.addStylusSample(movedPointer);
+          }
+
           // Calculate current centroid
           const currentCentroid = calculateCentroid(relevantPointers);
 
@@ -266,6 +450,7 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
             isDirectionAllowed(moveDirection, this.direction)
           ) {
             this.state.movementThresholdReached = true;
+            this.state.moveVelocity = { x: 0, y: 0, timeStamp: event.timeStamp };
             this.isActive = true;
 
             // Emit start event
@@ -287,6 +472,12 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
               this.state.lastDeltas = { x: lastDeltaX, y: lastDeltaY };
               this.state.totalDeltaX += lastDeltaX;
               this.state.totalDeltaY += lastDeltaY;
+              this.state.moveVelocity = updateSmoothedVelocity(
+                this.state.moveVelocity,
+                lastDeltaX,
+                lastDeltaY,
+                event.timeStamp
+              );
             }
 
             // Emit ongoing event
@@ -308,6 +499,14 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
             relevantPointers.filter(p => p.type !== 'pointerup' && p.type !== 'pointercancel')
               .length < this.minPointers
           ) {
+            // Keep the pan moving after the release, it ends once the momentum stops
+            if (
+              event.type === 'pointerup' &&
+              this.startMomentum(targetElement, relevantPointers, event)
+            ) {
+              break;
+            }
+
             // End the gesture
             const currentCentroid = this.state.lastCentroid || this.state.startCentroid!;
             if (event.type === 'pointercancel') {
@@ -317,12 +516,139 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
             this.resetState();
           }
         } else {
+          if (this.state.startCentroid) {
+            // Released before reaching the threshold, the pan can't be recognized anymore
+            this.setRecognizerState('failed');
+          }
           this.resetState();
         }
         break;
     }
   }
 
+  /**
+   * Start the momentum after the release, if enabled and the pointers moved fast enough
+   *
+   * @returns Whether the momentum started, in which case the pan ends when it stops
+   */
+  private startMomentum(
+    element: TargetElement,
+    pointers: PointerData[],
+    event: PointerEvent
+  ): boolean {
+    if (!this.momentum) return false;
+
+    // The pointers which stopped moving before the release have no velocity
+    const velocity = getReleaseVelocity(this.state.moveVelocity, event.timeStamp);
+    const speed = Math.hypot(velocity.x, velocity.y);
+    if (speed === 0 || speed < this.momentumMinVelocity) return false;
+
+    this.state.momentum = {
+      velocityX: velocity.x,
+      velocityY: velocity.y,
+      timeStamp: event.timeStamp,
+      releaseEvent: event,
+      pointers,
+      element,
+    };
+    this.cancelMomentumFrame = this.pointerManager.requestFrame(this.handleMomentumFrame);
+
+    return true;
+  }
+
+  /**
+   * Move the pan by the decaying momentum velocity, once per animation frame,
+   * and end it when the velocity drops below the minimum.
+   * The momentum follows the time of the frames given by the PointerManager, so that it only
+   * depends on the timestamps when the frames are driven by another clock, like when headless.
+   *
+   * @param time - The time of the frame, on the timeline of the pointer events
+   */
+  private handleMomentumFrame = (time: number): void => {
+    this.cancelMomentumFrame = null;
+
+    const momentum = this.state.momentum;
+    const lastCentroid = this.state.lastCentroid;
+    if (!momentum || !lastCentroid) return;
+
+    const elapsed = Math.max(0, time - momentum.timeStamp);
+    const decay = Math.pow(this.momentumDeceleration, elapsed / 16);
+
+    momentum.velocityX *= decay;
+    momentum.velocityY *= decay;
+    momentum.timeStamp += elapsed;
+
+    const deltaX = (momentum.velocityX * elapsed) / 1000;
+    const deltaY = (momentum.velocityY * elapsed) / 1000;
+    const currentCentroid = { x: lastCentroid.x + deltaX, y: lastCentroid.y + deltaY };
+
+    this.state.lastDeltas = { x: deltaX, y: deltaY };
+    this.state.totalDeltaX += deltaX;
+    this.state.totalDeltaY += deltaY;
+    this.state.lastDirection = getDirection(lastCentroid, currentCentroid);
+    this.state.lastCentroid = currentCentroid;
+
+    const { element, pointers, releaseEvent, timeStamp } = momentum;
+
+    if (Math.hypot(momentum.velocityX, momentum.velocityY) < this.momentumMinVelocity) {
+      this.emitPanEvent(element, 'end', pointers, releaseEvent, currentCentroid, timeStamp);
+      this.resetState();
+      return;
+    }
+
+    this.emitPanEvent(element, 'ongoing', pointers, releaseEvent, currentCentroid, timeStamp);
+    this.cancelMomentumFrame = this.pointerManager.requestFrame(this.handleMomentumFrame);
+  };
+
+  /**
+   * Add the stylus data of a pointer sample to the sums used for the aggregates
+   */
+  private addStylusSample(pointer: PointerData): void {
+    const samples = this.state.stylusSamples;
+    samples.count++;
+    samples.pressure += pointer.pressure;
+    samples.minPressure = Math.min(samples.minPressure, pointer.pressure);
+    samples.maxPressure = Math.max(samples.maxPressure, pointer.pressure);
+    samples.tangentialPressure += pointer.tangentialPressure;
+    samples.tiltX += pointer.tiltX;
+    samples.tiltY += pointer.tiltY;
+    samples.altitudeAngle += pointer.altitudeAngle;
+  }
+
+  /**
+   * Calculate the stylus aggregates from the sums of the pointer samples
+   */
+  private getStylusData(): PanStylusData {
+    const samples = this.state.stylusSamples;
+    const count = samples.count || 1;
+
+    return {
+      averagePressure: samples.pressure / count,
+      minPressure: samples.count > 0 ? samples.minPressure : 0,
+      maxPressure: samples.count > 0 ? samples.maxPressure : 0,
+      averageTangentialPressure: samples.tangentialPressure / count,
+      averageTiltX: samples.tiltX / count,
+      averageTiltY: samples.tiltY / count,
+      averageAltitudeAngle: samples.count > 0 ? samples.altitudeAngle / count : Math.PI / 2,
+    };
+  }
+
+  /**
+   * Merge two pan events held in the same animation frame, adding up their deltas
+   */
+  protected mergeEventData(
+    previous: PanGestureEventData,
+    next: PanGestureEventData
+  ): PanGestureEventData {
+    return {
+      ...next,
+      deltaX: previous.deltaX + next.deltaX,
+      deltaY: previous.deltaY + next.deltaY,
+      deltas: mergePanDeltas(previous.deltas, next.deltas),
+      coalescedSamples: [...previous.coalescedSamples, ...next.coalescedSamples],
+    };
+  }
+
   /**
    * Emit pan-specific events with additional data
    */
@@ -331,41 +657,71 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
     phase: GesturePhase,
     pointers: PointerData[],
     event: PointerEvent,
-    currentCentroid: { x: number; y: number }
+    currentCentroid: { x: number; y: number },
+    timeStamp: number = event.timeStamp
   ): void {
     if (!this.state.startCentroid) return;
 
     const deltaX = this.state.lastDeltas?.x ?? 0;
     const deltaY = this.state.lastDeltas?.y ?? 0;
+    const momentum = this.state.momentum;
 
     // Calculate velocity - time difference in seconds
     const firstPointer = this.state.startPointers.values().next().value;
-    const timeElapsed = firstPointer ? (event.timeStamp - firstPointer.timeStamp) / 1000 : 0;
-    const velocityX = timeElapsed > 0 ? deltaX / timeElapsed : 0;
-    const velocityY = timeElapsed > 0 ? deltaY / timeElapsed : 0;
+    const timeElapsed = firstPointer ? (timeStamp - firstPointer.timeStamp) / 1000 : 0;
+    let velocityX = timeElapsed > 0 ? deltaX / timeElapsed : 0;
+    let velocityY = timeElapsed > 0 ? deltaY / timeElapsed : 0;
+
+    // The momentum events have the velocity of the momentum
+    if (momentum) {
+      velocityX = momentum.velocityX;
+      velocityY = momentum.velocityY;
+    }
+
     const velocity = Math.sqrt(velocityX * velocityX + velocityY * velocityY);
 
     // Get list of active gestures
     const activeGestures = this.gesturesRegistry.getActiveGestures(element);
 
+    const transforms = this.getCoordinateTransforms();
+    const { totalDeltaX, totalDeltaY } = this.state;
+
     // Create custom event data
     const customEventData: PanGestureEventData = {
       gestureName: this.name,
       initialCentroid: this.state.startCentroid,
       centroid: currentCentroid,
+      coordinates: this.getCoordinates(currentCentroid, transforms),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: phase,
       pointers,
-      timeStamp: event.timeStamp,
+      timeStamp,
       deltaX,
       deltaY,
       direction: this.state.lastDirection,
       velocityX,
       velocityY,
       velocity,
-      totalDeltaX: this.state.totalDeltaX,
-      totalDeltaY: this.state.totalDeltaY,
+      stylus: this.getStylusData(),
+      ...(momentum
+        ? { coalescedSamples: [], predictedSamples: [] }
+        : this.getPointerSamples(pointers, event)),
+      momentum: momentum !== null,
+      totalDeltaX,
+      totalDeltaY,
+      deltas: mapCoordinateSpaces(transforms, transform => {
+        const delta = transformVector(transform, { x: deltaX, y: deltaY });
+        const totalDelta = transformVector(transform, { x: totalDeltaX, y: totalDeltaY });
+        return {
+          deltaX: delta.x,
+          deltaY: delta.y,
+          totalDeltaX: totalDelta.x,
+          totalDeltaY: totalDelta.y,
+        };
+      }),
       activeGestures,
       customData: this.customData,
     };
@@ -373,6 +729,8 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
     // Event names to trigger
     const eventName = createEventName(this.name, phase);
 
+    this.updateRecognizerState(phase);
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -380,7 +738,7 @@ export class PanGesture<GestureName extends string> extends PointerGesture<Gestu
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
 
     // Apply preventDefault/stopPropagation if configured
     if (this.preventDefault) {
@@ -9,11 +9,20 @@
  * This gesture is commonly used to implement zoom functionality in touch interfaces.
  */
 
-import { GesturePhase, GestureState } from '../Gesture';
+import { BrowserTouchGesture, GesturePhase, GestureState } from '../Gesture';
 import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
 import { PointerData } from '../PointerManager';
+import { CoordinateSpaces } from '../types/CoordinateSpaces';
+import { InternalEvent } from '../types/InternalEvent';
 import { TargetElement } from '../types/TargetElement';
-import { calculateAverageDistance, calculateCentroid, createEventName } from '../utils';
+import {
+  calculateAverageDistance,
+  calculateCentroid,
+  createEventName,
+  getModifiers,
+  mapCoordinateSpaces,
+  transformPoint,
+} from '../utils';
 
 /**
  * Configuration options for the PinchGesture
@@ -44,6 +53,8 @@ export type PinchGestureEventData<
   totalScale: number;
   /** Current distance between pointers in pixels */
   distance: number;
+  /** The distance between the pointers in the local, normalized and SVG spaces of the element */
+  distances: CoordinateSpaces<number>;
   /** Speed of the pinch movement in pixels per second */
   velocity: number;
   /** Direction of the pinch: 1 for spreading/zooming in, -1 for pinching/zooming out, 0 for no change */
@@ -112,18 +123,16 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
 
   public clone(overrides?: Record<string, unknown>): PinchGesture<GestureName> {
     return new PinchGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
-      preventIf: [...this.preventIf],
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
   }
 
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    return ['pinch-zoom'];
+  }
+
   public destroy(): void {
     this.resetState();
     super.destroy();
@@ -152,6 +161,16 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
   protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
     const pointersArray = Array.from(pointers.values());
 
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      if (this.isActive) {
+        this.emitPinchEvent(this.element, 'cancel', pointersArray, event);
+        this.emitPinchEvent(this.element, 'end', pointersArray, event);
+      }
+      this.resetState();
+      return;
+    }
+
     // Find which element (if any) is being targeted
     const targetElement = this.getTargetElement(event);
     if (!targetElement) return;
@@ -257,6 +276,19 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
     }
   }
 
+  /**
+   * Merge two pinch events held in the same animation frame, adding up their scale changes
+   */
+  protected mergeEventData(
+    previous: PinchGestureEventData,
+    next: PinchGestureEventData
+  ): PinchGestureEventData {
+    return {
+      ...next,
+      deltaScale: previous.deltaScale + next.deltaScale,
+    };
+  }
+
   /**
    * Emit pinch-specific events with additional data
    */
@@ -276,11 +308,16 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
     // Get list of active gestures
     const activeGestures = this.gesturesRegistry.getActiveGestures(element);
 
+    const transforms = this.getCoordinateTransforms();
+
     const customEventData: PinchGestureEventData = {
       gestureName: this.name,
       centroid,
+      coordinates: this.getCoordinates(centroid, transforms),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: phase,
       pointers,
       timeStamp: event.timeStamp,
@@ -288,6 +325,14 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
       deltaScale: this.state.deltaScale,
       totalScale: this.state.totalScale,
       distance,
+      distances: mapCoordinateSpaces(transforms, transform =>
+        calculateAverageDistance(
+          pointers.map(pointer => {
+            const { x, y } = transformPoint(transform, { x: pointer.clientX, y: pointer.clientY });
+            return { ...pointer, clientX: x, clientY: y };
+          })
+        )
+      ),
       velocity: this.state.velocity,
       activeGestures,
       direction: this.state.velocity > 0 ? 1 : this.state.velocity < 0 ? -1 : 0,
@@ -306,6 +351,8 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
     // Event names to trigger
     const eventName = createEventName(this.name, phase);
 
+    this.updateRecognizerState(phase);
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -313,6 +360,6 @@ export class PinchGesture<GestureName extends string> extends PointerGesture<Ges
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
   }
 }
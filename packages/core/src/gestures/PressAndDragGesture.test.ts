@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { PressAndDragGesture } from './PressAndDragGesture';
+import { TapGesture } from './TapGesture';
+
+describe('PressAndDragGesture', () => {
+  it('reports the duration of the press before the pickup', () => {
+    const engine = new HeadlessGestureEngine({
+      gestures: [new PressAndDragGesture({ name: 'pressAndDrag', duration: 300 })],
+    });
+    engine.createTarget('node');
+    engine.registerTarget('pressAndDrag', 'node');
+
+    const pointer = { targetId: 'node', pointerId: 1, clientY: 10 };
+    engine.processPointer({ ...pointer, type: 'pointerdown', clientX: 10, timeStamp: 1000 });
+
+    const pickupEvents = engine.advanceTime(1500);
+    expect(pickupEvents.map(event => event.type)).toEqual(['pressAndDragStart', 'pressAndDrag']);
+    pickupEvents.forEach(event => expect(event.detail.pressDuration).toBe(300));
+
+    const dragEvents = [
+      ...engine.processPointer({ ...pointer, type: 'pointermove', clientX: 40, timeStamp: 1600 }),
+      ...engine.processPointer({ ...pointer, type: 'pointerup', clientX: 40, timeStamp: 1700 }),
+    ];
+    expect(dragEvents[dragEvents.length - 1].type).toBe('pressAndDragEnd');
+    expect(dragEvents[dragEvents.length - 1].detail.totalDeltaX).toBe(30);
+    dragEvents.forEach(event => expect(event.detail.pressDuration).toBe(300));
+
+    engine.destroy();
+  });
+
+  it('includes the wait for other gestures to fail in the duration of the press', () => {
+    const engine = new HeadlessGestureEngine({
+      gestures: [
+        new PressAndDragGesture({ name: 'pressAndDrag', duration: 300, requireFailureOf: ['tap'] }),
+        new TapGesture({ name: 'tap', maxDistance: 2 }),
+      ],
+    });
+    engine.createTarget('node');
+    engine.registerTarget(['pressAndDrag', 'tap'], 'node');
+
+    const pointer = { targetId: 'node', pointerId: 1, clientY: 10 };
+    engine.processPointer({ ...pointer, type: 'pointerdown', clientX: 10, timeStamp: 1000 });
+    expect(engine.advanceTime(1400)).toEqual([]);
+
+    // Moving past the maximum distance of the tap fails it, which releases the pickup
+    const events = engine.processPointer({
+      ...pointer,
+      type: 'pointermove',
+      clientX: 15,
+      timeStamp: 1450,
+    });
+    const pickupEvent = events.find(event => event.type === 'pressAndDragStart');
+    expect(pickupEvent?.detail.pressDuration).toBe(450);
+
+    engine.destroy();
+  });
+});
@@ -0,0 +1,606 @@
+/**
+ * PressAndDragGesture - Detects a press and hold followed by a drag with the same pointers
+ *
+ * This gesture chains a press into a pan, firing events when:
+ * - The press passes the holding threshold time, picking up the element (start, ongoing)
+ * - The pointers move after the pickup (ongoing)
+ * - The pointers are released (end)
+ * - The drag is interrupted after the pickup (cancel)
+ *
+ * Moving beyond the maximum distance before the press is recognized fails the gesture without
+ * emitting any event. This gesture is commonly used for sortable lists and draggable map pins.
+ *
+ * The gesture is a sequence of a press and a pan: it forwards the pointer events to a
+ * PressGesture until the element is picked up, then to a PanGesture started at the pickup.
+ */
+
+import { ActiveGesturesRegistry } from '../ActiveGesturesRegistry';
+import { BrowserTouchGesture, GestureEventData, GesturePhase, GestureState } from '../Gesture';
+import { GestureEventBatcher } from '../GestureEventBatcher';
+import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
+import { PointerData, PointerManager } from '../PointerManager';
+import { CoordinateSpaces } from '../types/CoordinateSpaces';
+import { InternalEvent } from '../types/InternalEvent';
+import { TargetElement } from '../types/TargetElement';
+import {
+  calculateCentroid,
+  createEventName,
+  createForceResetEvent,
+  createPointerEvent,
+  getModifiers,
+  mapCoordinateSpaces,
+  mergePanDeltas,
+  transformVector,
+} from '../utils';
+import { Direction, PanDeltas, PanEvent, PanGesture, PanGestureEventData } from './PanGesture';
+import { PressGesture } from './PressGesture';
+
+/**
+ * Configuration options for PressAndDragGesture
+ * Extends PointerGestureOptions with the press options
+ */
+export type PressAndDragGestureOptions<GestureName extends string> =
+  PointerGestureOptions<GestureName> & {
+    /**
+     * Duration in milliseconds required to hold before the element is picked up
+     * @default 500
+     */
+    duration?: number;
+
+    /**
+     * Maximum distance in pixels that a pointer can move before the element is picked up
+     * @default 10
+     */
+    maxDistance?: number;
+
+    /**
+     * Optional array of allowed directions for the drag, like the `direction` of the pan gesture
+     * If not specified, all directions are allowed
+     */
+    direction?: Array<'up' | 'down' | 'left' | 'right'>;
+  };
+
+/**
+ * Event data specific to press and drag gesture events
+ * Contains information about the press duration and the drag movement
+ */
+export type PressAndDragGestureEventData<
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = PointerGestureEventData<CustomData> & {
+  /** The centroid position when the element was picked up */
+  initialCentroid: { x: number; y: number };
+  /** Horizontal distance moved in pixels since the last event */
+  deltaX: number;
+  /** Vertical distance moved in pixels since the last event */
+  deltaY: number;
+  /** Total horizontal movement in pixels since the element was picked up */
+  totalDeltaX: number;
+  /** Total vertical movement in pixels since the element was picked up */
+  totalDeltaY: number;
+  /** The deltas in the local, normalized and SVG coordinate spaces of the element */
+  deltas: CoordinateSpaces<PanDeltas>;
+  /** The direction of movement with vertical and horizontal components */
+  direction: Direction;
+  /** Horizontal velocity in pixels per second */
+  velocityX: number;
+  /** Vertical velocity in pixels per second */
+  velocityY: number;
+  /** Total velocity magnitude in pixels per second */
+  velocity: number;
+  /** The duration of the press before the pickup in milliseconds */
+  pressDuration: number;
+};
+
+/**
+ * Type definition for the CustomEvent created by PressAndDragGesture
+ */
+export type PressAndDragEvent<
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = CustomEvent<PressAndDragGestureEventData<CustomData>>;
+
+/**
+ * State tracking for the PressAndDragGesture
+ */
+export type PressAndDragGestureState = GestureState & {
+  /** Whether the element was picked up, after which the pointers drive the drag */
+  pickedUp: boolean;
+  /** The centroid position when the element was picked up */
+  pickupCentroid: { x: number; y: number } | null;
+  /** Time stamp of the pointerdown starting the press */
+  pressStartTime: number;
+  /** Duration of the press before the pickup in milliseconds */
+  pressDuration: number;
+  /** The centroid position of the latest event */
+  lastCentroid: { x: number; y: number } | null;
+  /** The pointers of the latest pointer event */
+  lastPointers: Map<number, PointerData>;
+  /** The latest pointer event, used as the source event of the pickup */
+  lastEvent: PointerEvent | null;
+};
+
+/**
+ * Turn a pointer gesture class into a step of the press and drag sequence.
+ * A step isn't routed the pointer events by the PointerManager: the sequence forwards them,
+ * and receives the events emitted by the step instead of the element.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function asSequenceStep<Base extends abstract new (...args: any[]) => PointerGesture<string>>(
+  GestureClass: Base
+) {
+  abstract class SequenceStep extends GestureClass {
+    /** Receives the events emitted by the step */
+    public onStepEvent: (event: CustomEvent<GestureEventData>) => void = () => {};
+
+    public init(
+      element: TargetElement,
+      pointerManager: PointerManager,
+      gestureRegistry: ActiveGesturesRegistry<string>
+    ): void {
+      super.init(element, pointerManager, gestureRegistry);
+      // The sequence forwards the pointer events itself
+      this.unregisterHandler?.();
+      this.unregisterHandler = null;
+    }
+
+    /**
+     * Handle a pointer event forwarded by the sequence
+     */
+    public handleStepEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+      this.handlePointerEvent(pointers, event);
+    }
+
+    /**
+     * Update the options of the step from the options of the sequence
+     */
+    public setStepOptions(options: typeof this.mutableOptionsType): void {
+      this.updateOptions(options);
+    }
+
+    /**
+     * Stop the step and get it ready for the next interaction
+     */
+    public stop(): void {
+      this.resetState();
+      this.setRecognizerState('possible');
+    }
+
+    protected getTargetElement(): TargetElement {
+      // The sequence already found the target of the event
+      return this.element;
+    }
+
+    protected dispatchGestureEvent(
+      _element: TargetElement,
+      event: CustomEvent<GestureEventData>
+    ): void {
+      this.onStepEvent(event);
+    }
+  }
+
+  return SequenceStep;
+}
+
+const PressStep = asSequenceStep(PressGesture);
+const DragStep = asSequenceStep(PanGesture);
+
+/**
+ * PressAndDragGesture class for handling press then drag interactions
+ *
+ * This gesture waits for the pointers to be held in place for a specified duration, then
+ * tracks them as a drag until they are released. Both steps share a single lifecycle.
+ *
+ * The `start` and `ongoing` events are dispatched at the same time once the press threshold is reached.
+ * The drag then follows the `threshold` and `direction` options, like a pan gesture.
+ * If the drag is canceled, a `cancel` event is dispatched before the `end` event.
+ */
+export class PressAndDragGesture<GestureName extends string> extends PointerGesture<GestureName> {
+  protected state: PressAndDragGestureState = {
+    pickedUp: false,
+    pickupCentroid: null,
+    pressStartTime: 0,
+    pressDuration: 0,
+    lastCentroid: null,
+    lastPointers: new Map(),
+    lastEvent: null,
+  };
+
+  protected readonly isSinglePhase!: false;
+  protected readonly eventType!: PressAndDragEvent;
+  protected readonly optionsType!: PressAndDragGestureOptions<GestureName>;
+  protected readonly mutableOptionsType!: Omit<typeof this.optionsType, 'name'>;
+  protected readonly mutableStateType!: never;
+
+  /**
+   * Duration in milliseconds required to hold before the element is picked up
+   */
+  private duration: number;
+
+  /**
+   * Maximum distance a pointer can move before the element is picked up
+   */
+  private maxDistance: number;
+
+  /**
+   * Allowed directions for the drag
+   */
+  private direction: Array<'up' | 'down' | 'left' | 'right'>;
+
+  /** The press step, driven until the element is picked up */
+  private press: InstanceType<typeof PressStep>;
+
+  /** The drag step, driven after the pickup */
+  private drag: InstanceType<typeof DragStep>;
+
+  constructor(options: PressAndDragGestureOptions<GestureName>) {
+    super(options);
+    this.duration = options.duration ?? 500;
+    this.maxDistance = options.maxDistance ?? 10;
+    this.direction = options.direction || ['up', 'down', 'left', 'right'];
+
+    this.press = new PressStep({ name: `${this.name}Press`, ...this.getPressOptions() });
+    this.drag = new DragStep({ name: `${this.name}Drag`, ...this.getDragOptions() });
+    this.press.onStepEvent = event => this.handlePressEvent(event);
+    this.drag.onStepEvent = event => this.handleDragEvent(event as PanEvent);
+  }
+
+  public getOptions(): PressAndDragGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
+      duration: this.duration,
+      maxDistance: this.maxDistance,
+      direction: this.direction,
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): PressAndDragGesture<GestureName> {
+    return new PressAndDragGesture({
+      ...this.getOptions(),
+      // Apply any overrides passed to the method
+      ...overrides,
+    });
+  }
+
+  public init(
+    element: TargetElement,
+    pointerManager: PointerManager,
+    gestureRegistry: ActiveGesturesRegistry<GestureName>,
+    eventBatcher?: GestureEventBatcher
+  ): void {
+    super.init(element, pointerManager, gestureRegistry, eventBatcher);
+
+    // The steps only compete with each other, the sequence competes with the other gestures
+    const stepsRegistry = new ActiveGesturesRegistry<string>();
+    this.press.init(element, pointerManager, stepsRegistry);
+    this.drag.init(element, pointerManager, stepsRegistry);
+  }
+
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    // Scrolling would cancel the pointers before the drag, since it can't be stopped once started
+    return ['pan-x', 'pan-y'];
+  }
+
+  public destroy(): void {
+    this.resetState();
+    this.press.destroy();
+    this.drag.destroy();
+    super.destroy();
+  }
+
+  protected updateOptions(options: typeof this.mutableOptionsType): void {
+    super.updateOptions(options);
+
+    this.duration = options.duration ?? this.duration;
+    this.maxDistance = options.maxDistance ?? this.maxDistance;
+    this.direction = options.direction || this.direction;
+
+    this.press.setStepOptions(this.getPressOptions());
+    this.drag.setStepOptions(this.getDragOptions());
+  }
+
+  protected resetState(): void {
+    this.isActive = false;
+    this.press.stop();
+    this.drag.stop();
+    this.state = {
+      pickedUp: false,
+      pickupCentroid: null,
+      pressStartTime: 0,
+      pressDuration: 0,
+      lastCentroid: null,
+      lastPointers: new Map(),
+      lastEvent: null,
+    };
+  }
+
+  /**
+   * Get the options of the press step, which picks up the element
+   */
+  private getPressOptions() {
+    return {
+      minPointers: this.minPointers,
+      maxPointers: this.maxPointers,
+      modifiers: this.modifiers,
+      duration: this.duration,
+      maxDistance: this.maxDistance,
+    };
+  }
+
+  /**
+   * Get the options of the drag step, which moves the element after the pickup
+   */
+  private getDragOptions() {
+    return {
+      minPointers: this.minPointers,
+      maxPointers: this.maxPointers,
+      threshold: this.threshold,
+      direction: this.direction,
+    };
+  }
+
+  /**
+   * Handle pointer events for the press and drag gesture
+   */
+  protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      this.cancel(pointers, event);
+      return;
+    }
+
+    // Find which element (if any) is being targeted
+    const targetElement = this.getTargetElement(event);
+    if (!targetElement) return;
+
+    // Check if this gesture should be prevented by active gestures
+    if (this.shouldPreventGesture(targetElement)) {
+      if (this.isActive) {
+        // If the gesture was active but now should be prevented, cancel it gracefully
+        this.cancel(pointers, createForceResetEvent());
+      }
+      return;
+    }
+
+    this.state.lastPointers = pointers;
+    this.state.lastEvent = event;
+
+    if (this.state.pickedUp) {
+      this.handleDragStepEvent(pointers, event);
+      return;
+    }
+
+    this.press.handleStepEvent(pointers, event);
+
+    // Moving too far, releasing too early or changing the pointers fails the press
+    if (this.press.getRecognizerState() === 'failed') {
+      this.failSequence();
+      return;
+    }
+
+    if (!this.isActive && this.press.isTracking()) {
+      this.isActive = true;
+      this.originalTarget = targetElement;
+      this.state.pressStartTime = event.timeStamp;
+    }
+  }
+
+  /**
+   * Forward a pointer event to the drag step, and end the sequence when the drag stopped
+   * without emitting its own end event, e.g. when released before reaching the threshold
+   */
+  private handleDragStepEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    this.drag.handleStepEvent(pointers, event);
+
+    if (!this.state.pickedUp || this.drag.isTracking()) return;
+
+    const pointersArray = this.getRelevantPointers(Array.from(pointers.values()), this.element);
+    if (event.type !== 'pointerup') {
+      this.emitPressAndDragEvent(this.element, 'cancel', pointersArray, event, null);
+    }
+    this.emitPressAndDragEvent(this.element, 'end', pointersArray, event, null);
+    this.resetState();
+  }
+
+  /**
+   * Handle the events of the press step
+   */
+  private handlePressEvent(event: CustomEvent<GestureEventData>): void {
+    switch (event.detail.phase) {
+      case 'start':
+        // Waits for the gestures in `requireFailureOf` before picking up the element
+        this.requestRecognition(() => this.pickup());
+        break;
+      case 'cancel':
+      case 'end':
+        // The press was released or cancelled while the pickup waited for other gestures
+        if (!this.state.pickedUp) {
+          this.failSequence();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Pick up the element once the press is recognized, and start the drag from the
+   * latest pointer positions
+   */
+  private pickup(): void {
+    const event = this.state.lastEvent;
+    if (!this.isActive || !event) return;
+
+    // The pointers may have moved since the latest event, within the press maximum distance
+    const latestPointers = this.pointerManager.getPointers();
+    const pointers = new Map(
+      Array.from(this.state.lastPointers, ([pointerId, pointer]) => [
+        pointerId,
+        latestPointers.get(pointerId) ?? pointer,
+      ])
+    );
+    const pointersArray = this.getRelevantPointers(Array.from(pointers.values()), this.element);
+
+    this.state.pickedUp = true;
+    this.state.pickupCentroid = calculateCentroid(pointersArray);
+
+    // The press timer has no event, the pickup is at least the press duration after the pointerdown
+    this.state.pressDuration = Math.max(this.duration, event.timeStamp - this.state.pressStartTime);
+
+    this.emitPressAndDragEvent(this.element, 'start', pointersArray, event, null);
+    this.emitPressAndDragEvent(this.element, 'ongoing', pointersArray, event, null);
+
+    // The drag starts where the element was picked up, with the pointers already down
+    this.press.stop();
+    this.drag.handleStepEvent(pointers, createPointerEvent('pointerdown', event));
+  }
+
+  /**
+   * Handle the events of the drag step, emitting them as the events of the sequence
+   */
+  private handleDragEvent(event: PanEvent): void {
+    const drag = event.detail;
+
+    switch (drag.phase) {
+      case 'start':
+        // The sequence already started when the element was picked up
+        break;
+      case 'ongoing':
+      case 'cancel':
+        this.emitPressAndDragEvent(this.element, drag.phase, drag.pointers, drag.srcEvent, drag);
+        break;
+      case 'end':
+        this.emitPressAndDragEvent(this.element, 'end', drag.pointers, drag.srcEvent, drag);
+        this.resetState();
+        break;
+    }
+  }
+
+  /**
+   * Merge two drag events held in the same animation frame, adding up their deltas
+   */
+  protected mergeEventData(
+    previous: PressAndDragGestureEventData,
+    next: PressAndDragGestureEventData
+  ): PressAndDragGestureEventData {
+    return {
+      ...next,
+      deltaX: previous.deltaX + next.deltaX,
+      deltaY: previous.deltaY + next.deltaY,
+      deltas: mergePanDeltas(previous.deltas, next.deltas),
+    };
+  }
+
+  /**
+   * Emit press and drag specific events with additional data
+   * @param drag The event data of the drag step, null before the drag started
+   */
+  private emitPressAndDragEvent(
+    element: TargetElement,
+    phase: GesturePhase,
+    pointers: PointerData[],
+    event: PointerEvent,
+    drag: PanGestureEventData | null
+  ): void {
+    const pickupCentroid = this.state.pickupCentroid;
+    if (!pickupCentroid) return;
+
+    // Get list of active gestures
+    const activeGestures = this.gesturesRegistry.getActiveGestures(element);
+
+    // The movement is measured from the pickup, before the drag reaches its threshold
+    const transforms = this.getCoordinateTransforms();
+    const centroid = drag?.centroid ?? calculateCentroid(pointers);
+    const lastCentroid = this.state.lastCentroid ?? pickupCentroid;
+    const deltaX = centroid.x - lastCentroid.x;
+    const deltaY = centroid.y - lastCentroid.y;
+    const totalDeltaX = centroid.x - pickupCentroid.x;
+    const totalDeltaY = centroid.y - pickupCentroid.y;
+    this.state.lastCentroid = centroid;
+
+    // Create custom event data
+    const customEventData: PressAndDragGestureEventData = {
+      gestureName: this.name,
+      initialCentroid: pickupCentroid,
+      centroid,
+      coordinates: drag?.coordinates ?? this.getCoordinates(centroid, transforms),
+      target: event.target,
+      targetId: this.getTargetId(event),
+      srcEvent: event,
+      modifiers: getModifiers(event),
+      phase: phase,
+      pointers,
+      timeStamp: event.timeStamp,
+      deltaX,
+      deltaY,
+      totalDeltaX,
+      totalDeltaY,
+      deltas: mapCoordinateSpaces(transforms, transform => {
+        const delta = transformVector(transform, { x: deltaX, y: deltaY });
+        const totalDelta = transformVector(transform, { x: totalDeltaX, y: totalDeltaY });
+        return {
+          deltaX: delta.x,
+          deltaY: delta.y,
+          totalDeltaX: totalDelta.x,
+          totalDeltaY: totalDelta.y,
+        };
+      }),
+      direction: drag?.direction ?? { vertical: null, horizontal: null, mainAxis: null },
+      velocityX: drag?.velocityX ?? 0,
+      velocityY: drag?.velocityY ?? 0,
+      velocity: drag?.velocity ?? 0,
+      pressDuration: this.state.pressDuration,
+      activeGestures,
+      customData: this.customData,
+    };
+
+    // Event names to trigger
+    const eventName = createEventName(this.name, phase);
+
+    this.updateRecognizerState(phase);
+
+    // Dispatch custom events on the element
+    const domEvent = new CustomEvent(eventName, {
+      bubbles: true,
+      cancelable: true,
+      detail: customEventData,
+    });
+
+    this.dispatchGestureEvent(element, domEvent);
+
+    // Apply preventDefault/stopPropagation if configured
+    if (this.preventDefault) {
+      event.preventDefault();
+    }
+
+    if (this.stopPropagation) {
+      event.stopPropagation();
+    }
+  }
+
+  /**
+   * Fail the sequence when the press fails, without emitting any event
+   */
+  private failSequence(): void {
+    this.dropPendingRecognitions();
+    this.setRecognizerState('failed');
+    this.resetState();
+  }
+
+  /**
+   * Cancel the current gesture
+   */
+  private cancel(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    // A started drag emits its own cancel and end events, which reset the sequence
+    if (this.state.pickedUp && this.drag.isTracking()) {
+      this.drag.handleStepEvent(pointers, event);
+    }
+
+    if (this.state.pickedUp) {
+      const pointersArray = this.getRelevantPointers(Array.from(pointers.values()), this.element);
+      this.emitPressAndDragEvent(this.element, 'cancel', pointersArray, event, null);
+      this.emitPressAndDragEvent(this.element, 'end', pointersArray, event, null);
+    } else if (this.isActive) {
+      this.dropPendingRecognitions();
+      this.setRecognizerState('failed');
+    }
+
+    this.resetState();
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { PressGesture } from './PressGesture';
+
+/**
+ * Create an engine with a press on a target
+ */
+function createEngine() {
+  const engine = new HeadlessGestureEngine({
+    gestures: [new PressGesture({ name: 'press', duration: 500 })],
+  });
+  engine.createTarget('node');
+  engine.registerTarget('press', 'node');
+
+  return engine;
+}
+
+const pointer = { targetId: 'node', pointerId: 1, clientX: 10, clientY: 10 };
+
+describe('PressGesture', () => {
+  it('recognizes the press once its duration elapsed on the clock of the samples', () => {
+    const engine = createEngine();
+
+    expect(engine.processPointer({ ...pointer, type: 'pointerdown', timeStamp: 0 })).toEqual([]);
+    expect(engine.advanceTime(499)).toEqual([]);
+
+    const events = engine.advanceTime(2000);
+    expect(events.map(event => event.type)).toEqual(['pressStart', 'press']);
+    expect(events[0].detail.timeStamp).toBe(0);
+
+    const releaseEvents = engine.processPointer({ ...pointer, type: 'pointerup', timeStamp: 2100 });
+    expect(releaseEvents.map(event => event.type)).toEqual(['pressEnd']);
+
+    engine.destroy();
+  });
+
+  it('runs the press timer before a later sample', () => {
+    const engine = createEngine();
+
+    engine.processPointer({ ...pointer, type: 'pointerdown', timeStamp: 0 });
+    const events = engine.processPointer({ ...pointer, type: 'pointerup', timeStamp: 600 });
+
+    expect(events.map(event => event.type)).toEqual(['pressStart', 'press', 'pressEnd']);
+
+    engine.destroy();
+  });
+
+  it('fails when the pointer is released before the duration', () => {
+    const engine = createEngine();
+
+    engine.processPointer({ ...pointer, type: 'pointerdown', timeStamp: 0 });
+    expect(engine.processPointer({ ...pointer, type: 'pointerup', timeStamp: 200 })).toEqual([]);
+    expect(engine.advanceTime(2000)).toEqual([]);
+
+    engine.destroy();
+  });
+});
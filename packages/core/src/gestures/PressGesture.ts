@@ -14,7 +14,7 @@ import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '
 import { PointerData } from '../PointerManager';
 import { InternalEvent } from '../types/InternalEvent';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, createEventName } from '../utils';
+import { calculateCentroid, createEventName, getModifiers } from '../utils';
 
 /**
  * Configuration options for PressGesture
@@ -63,8 +63,8 @@ export type PressGestureState = GestureState & {
   startCentroid: { x: number; y: number } | null;
   /** The most recent position during the gesture */
   lastPosition: { x: number; y: number } | null;
-  /** ID of the timer used to track press duration */
-  timerId: number | null;
+  /** Cancels the timer tracking the press duration, null when no timer is scheduled */
+  cancelTimer: (() => void) | null;
   /** Start time of the press (used to calculate duration) */
   startTime: number;
   /** Whether the press threshold duration has been reached */
@@ -84,7 +84,7 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
   protected state: PressGestureState = {
     startCentroid: null,
     lastPosition: null,
-    timerId: null,
+    cancelTimer: null,
     startTime: 0,
     pressThresholdReached: false,
   };
@@ -95,7 +95,7 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
   protected readonly mutableOptionsType!: Omit<typeof this.optionsType, 'name'>;
   protected readonly mutableStateType!: Omit<
     Partial<typeof this.state>,
-    'startCentroid' | 'lastPosition' | 'timerId' | 'startTime' | 'pressThresholdReached'
+    'startCentroid' | 'lastPosition' | 'cancelTimer' | 'startTime' | 'pressThresholdReached'
   >;
 
   /**
@@ -114,17 +114,17 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
     this.maxDistance = options.maxDistance ?? 10;
   }
 
-  public clone(overrides?: Record<string, unknown>): PressGesture<GestureName> {
-    return new PressGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
+  public getOptions(): PressGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
       duration: this.duration,
       maxDistance: this.maxDistance,
-      preventIf: [...this.preventIf],
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): PressGesture<GestureName> {
+    return new PressGesture({
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
@@ -150,7 +150,7 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
       ...this.state,
       startCentroid: null,
       lastPosition: null,
-      timerId: null,
+      cancelTimer: null,
       startTime: 0,
       pressThresholdReached: false,
     };
@@ -160,9 +160,9 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
    * Clear the press timer if it's active
    */
   private clearPressTimer(): void {
-    if (this.state.timerId !== null) {
-      window.clearTimeout(this.state.timerId);
-      this.state.timerId = null;
+    if (this.state.cancelTimer !== null) {
+      this.state.cancelTimer();
+      this.state.cancelTimer = null;
     }
   }
 
@@ -175,7 +175,7 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
     // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
     if ((event as InternalEvent).forceReset) {
       // Reset all active press gestures when we get a force reset event
-      this.cancelPress(event.target as null, pointersArray, event);
+      this.cancelPress(null, pointersArray, event);
       return;
     }
 
@@ -206,7 +206,8 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
 
     switch (event.type) {
       case 'pointerdown':
-        if (!this.isActive && !this.state.startCentroid) {
+        // Only track presses started with the required modifier keys
+        if (!this.isActive && !this.state.startCentroid && this.matchesModifiers(event)) {
           // Calculate and store the starting centroid
           this.state.startCentroid = calculateCentroid(relevantPointers);
           this.state.lastPosition = { ...this.state.startCentroid };
@@ -218,14 +219,31 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
 
           // Start the timer for press recognition
           this.clearPressTimer(); // Clear any existing timer first
-          this.state.timerId = window.setTimeout(() => {
+          this.state.cancelTimer = this.pointerManager.requestTimeout(() => {
             if (this.isActive && this.state.startCentroid) {
               this.state.pressThresholdReached = true;
-              const lastPosition = this.state.lastPosition;
-
-              // Emit press start event
-              this.emitPressEvent(targetElement, 'start', relevantPointers, event, lastPosition!);
-              this.emitPressEvent(targetElement, 'ongoing', relevantPointers, event, lastPosition!);
+              const lastPosition = this.state.lastPosition!;
+              const startTime = this.state.startTime;
+
+              // Emit press start event, unless it has to wait for other gestures to fail first
+              this.requestRecognition(() => {
+                this.emitPressEvent(
+                  targetElement,
+                  'start',
+                  relevantPointers,
+                  event,
+                  lastPosition,
+                  startTime
+                );
+                this.emitPressEvent(
+                  targetElement,
+                  'ongoing',
+                  relevantPointers,
+                  event,
+                  lastPosition,
+                  startTime
+                );
+              });
             }
           }, this.duration);
         }
@@ -254,7 +272,26 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
           if (this.state.pressThresholdReached) {
             // Complete the press gesture if we've held long enough
             const position = this.state.lastPosition || this.state.startCentroid!;
-            this.emitPressEvent(targetElement, 'end', relevantPointers, event, position);
+            const startTime = this.state.startTime;
+
+            if (this.hasPendingRecognition()) {
+              // The press ends once its deferred start is emitted
+              this.requestRecognition(() =>
+                this.emitPressEvent(
+                  targetElement,
+                  'end',
+                  relevantPointers,
+                  event,
+                  position,
+                  startTime
+                )
+              );
+            } else {
+              this.emitPressEvent(targetElement, 'end', relevantPointers, event, position);
+            }
+          } else {
+            // Released before the duration elapsed, so this wasn't a press
+            this.setRecognizerState('failed');
           }
 
           // Reset state
@@ -277,20 +314,24 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
     phase: GesturePhase,
     pointers: PointerData[],
     event: PointerEvent,
-    position: { x: number; y: number }
+    position: { x: number; y: number },
+    startTime: number = this.state.startTime
   ): void {
     // Get list of active gestures
     const activeGestures = this.gesturesRegistry.getActiveGestures(element);
 
     // Calculate current duration of the press
-    const currentDuration = event.timeStamp - this.state.startTime;
+    const currentDuration = event.timeStamp - startTime;
 
     // Create custom event data
     const customEventData: PressGestureEventData = {
       gestureName: this.name,
       centroid: position,
+      coordinates: this.getCoordinates(position),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: phase,
       pointers,
       timeStamp: event.timeStamp,
@@ -304,6 +345,8 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
     // Event names to trigger
     const eventName = createEventName(this.name, phase);
 
+    this.updateRecognizerState(phase);
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -311,7 +354,7 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
 
     // Apply preventDefault/stopPropagation if configured
     if (this.preventDefault) {
@@ -331,11 +374,17 @@ export class PressGesture<GestureName extends string> extends PointerGesture<Ges
     pointers: PointerData[],
     event: PointerEvent
   ): void {
-    if (this.isActive && this.state.pressThresholdReached) {
+    if (this.hasPendingRecognition()) {
+      // The deferred start was never emitted, so the press just fails
+      this.dropPendingRecognitions();
+      this.setRecognizerState('failed');
+    } else if (this.isActive && this.state.pressThresholdReached) {
       const position = this.state.lastPosition || this.state.startCentroid!;
 
       this.emitPressEvent(element ?? this.element, 'cancel', pointers, event, position);
       this.emitPressEvent(element ?? this.element, 'end', pointers, event, position);
+    } else if (this.isActive) {
+      this.setRecognizerState('failed');
     }
 
     this.resetState();
@@ -9,11 +9,12 @@
  * This gesture is commonly used for rotation controls in drawing or image manipulation interfaces.
  */
 
-import { GesturePhase, GestureState } from '../Gesture';
+import { BrowserTouchGesture, GesturePhase, GestureState } from '../Gesture';
 import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
 import { PointerData } from '../PointerManager';
+import { InternalEvent } from '../types/InternalEvent';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, calculateRotationAngle, createEventName } from '../utils';
+import { calculateCentroid, calculateRotationAngle, createEventName, getModifiers } from '../utils';
 
 /**
  * Configuration options for the RotateGesture
@@ -93,18 +94,17 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
 
   public clone(overrides?: Record<string, unknown>): RotateGesture<GestureName> {
     return new RotateGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
-      preventIf: [...this.preventIf],
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
   }
 
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    // Rotating uses two pointers, like the pinch zoom
+    return ['pinch-zoom'];
+  }
+
   public destroy(): void {
     this.resetState();
     super.destroy();
@@ -132,6 +132,16 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
   protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
     const pointersArray = Array.from(pointers.values());
 
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      if (this.isActive) {
+        this.emitRotateEvent(this.element, 'cancel', pointersArray, event);
+        this.emitRotateEvent(this.element, 'end', pointersArray, event);
+      }
+      this.resetState();
+      return;
+    }
+
     // Find which element (if any) is being targeted
     const targetElement = this.getTargetElement(event);
     if (!targetElement) return;
@@ -244,6 +254,19 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
     }
   }
 
+  /**
+   * Merge two rotate events held in the same animation frame, adding up their angle changes
+   */
+  protected mergeEventData(
+    previous: RotateGestureEventData,
+    next: RotateGestureEventData
+  ): RotateGestureEventData {
+    return {
+      ...next,
+      delta: previous.delta + next.delta,
+    };
+  }
+
   /**
    * Emit rotate-specific events with additional data
    */
@@ -276,8 +299,11 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
     const customEventData: RotateGestureEventData = {
       gestureName: this.name,
       centroid,
+      coordinates: this.getCoordinates(centroid),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: phase,
       pointers,
       timeStamp: event.timeStamp,
@@ -301,6 +327,8 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
     // Event names to trigger
     const eventName = createEventName(this.name, phase);
 
+    this.updateRecognizerState(phase);
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -308,6 +336,6 @@ export class RotateGesture<GestureName extends string> extends PointerGesture<Ge
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
   }
 }
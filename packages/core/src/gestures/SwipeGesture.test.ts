@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { SwipeGesture } from './SwipeGesture';
+
+/**
+ * Swipe on a target from (100, 100) by a distance, releasing after a duration
+ *
+ * @returns The events recognized during the swipe
+ */
+function swipe(
+  deltaX: number,
+  deltaY: number,
+  duration: number,
+  options: { direction?: Array<'up' | 'down' | 'left' | 'right'> } = {}
+) {
+  const engine = new HeadlessGestureEngine({
+    gestures: [new SwipeGesture({ name: 'swipe', ...options })],
+  });
+  engine.createTarget('node');
+  engine.registerTarget('swipe', 'node');
+
+  const pointer = { targetId: 'node', pointerId: 1 };
+  const end = { clientX: 100 + deltaX, clientY: 100 + deltaY };
+  const events = [
+    ...engine.processPointer({
+      ...pointer,
+      type: 'pointerdown',
+      clientX: 100,
+      clientY: 100,
+      timeStamp: 0,
+    }),
+    ...engine.processPointer({ ...pointer, ...end, type: 'pointermove', timeStamp: duration }),
+    ...engine.processPointer({ ...pointer, ...end, type: 'pointerup', timeStamp: duration }),
+  ];
+
+  engine.destroy();
+  return events;
+}
+
+describe('SwipeGesture', () => {
+  it('recognizes a flick', () => {
+    const events = swipe(100, 0, 100);
+
+    expect(events.map(event => event.type)).toEqual(['swipe']);
+    expect(events[0].detail).toMatchObject({
+      direction: { horizontal: 'right', vertical: null },
+      distance: 100,
+      velocity: 1000,
+      duration: 100,
+    });
+  });
+
+  it('fails a flick too slow', () => {
+    // 100px in 250ms is 400px/s, within the maximum duration but above the minimum velocity
+    expect(swipe(100, 0, 250).map(event => event.type)).toEqual(['swipe']);
+
+    // 60px in 250ms is 240px/s, below the default minimum velocity of 300px/s
+    expect(swipe(60, 0, 250)).toEqual([]);
+  });
+
+  it('fails a flick too short', () => {
+    expect(swipe(20, 0, 20)).toEqual([]);
+  });
+
+  it('fails a flick taking longer than the maximum duration', () => {
+    expect(swipe(400, 0, 350)).toEqual([]);
+  });
+
+  it('fails a flick in a direction that is not allowed', () => {
+    expect(swipe(-100, 0, 100, { direction: ['right'] })).toEqual([]);
+    expect(swipe(100, 0, 100, { direction: ['right'] }).map(event => event.type)).toEqual([
+      'swipe',
+    ]);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * SwipeGesture - Detects quick directional flicks
+ *
+ * This gesture tracks short and fast pointer movements on elements, firing a single event when:
+ * - The pointers are released after moving far and fast enough in an allowed direction,
+ *   within the maximum duration
+ *
+ * Unlike the pan, the swipe has no ongoing phase, it is recognized at the release.
+ */
+
+import { BrowserTouchGesture, GestureState } from '../Gesture';
+import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
+import { PointerData } from '../PointerManager';
+import { InternalEvent } from '../types/InternalEvent';
+import { TargetElement } from '../types/TargetElement';
+import {
+  calculateCentroid,
+  getDirection,
+  getDirectionalTouchGestures,
+  getModifiers,
+  isDirectionAllowed,
+} from '../utils';
+import { Direction } from './PanGesture';
+
+/**
+ * Configuration options for SwipeGesture
+ * Extends PointerGestureOptions with swipe-specific settings
+ */
+export type SwipeGestureOptions<GestureName extends string> = PointerGestureOptions<GestureName> & {
+  /**
+   * Minimum average velocity of the swipe in pixels per second
+   * @default 300
+   */
+  minVelocity?: number;
+
+  /**
+   * Minimum distance in pixels the pointers must move
+   * @default 30
+   */
+  minDistance?: number;
+
+  /**
+   * Maximum time in milliseconds between the pointerdown and the release
+   * @default 300
+   */
+  maxDuration?: number;
+
+  /**
+   * Optional array of allowed directions for the swipe
+   * If not specified, all directions are allowed
+   */
+  direction?: Array<'up' | 'down' | 'left' | 'right'>;
+};
+
+/**
+ * Event data specific to swipe gesture events
+ * Contains information about the direction, distance and velocity of the swipe
+ */
+export type SwipeGestureEventData<
+  CustomData extends Record<string, unknown> = Record<string, unknown>,
+> = PointerGestureEventData<CustomData> & {
+  /** The centroid position at the start of the swipe */
+  initialCentroid: { x: number; y: number };
+  /** The direction of the swipe with vertical and horizontal components */
+  direction: Direction;
+  /** Horizontal distance of the swipe in pixels */
+  deltaX: number;
+  /** Vertical distance of the swipe in pixels */
+  deltaY: number;
+  /** Distance of the swipe in pixels */
+  distance: number;
+  /** Average horizontal velocity in pixels per second */
+  velocityX: number;
+  /** Average vertical velocity in pixels per second */
+  velocityY: number;
+  /** Average velocity magnitude in pixels per second */
+  velocity: number;
+  /** Time between the pointerdown and the release in milliseconds */
+  duration: number;
+};
+
+/**
+ * Type definition for the CustomEvent created by SwipeGesture
+ */
+export type SwipeEvent<CustomData extends Record<string, unknown> = Record<string, unknown>> =
+  CustomEvent<SwipeGestureEventData<CustomData>>;
+
+/**
+ * State tracking for the SwipeGesture
+ */
+export type SwipeGestureState = GestureState & {
+  /** The initial centroid position when the swipe began */
+  startCentroid: { x: number; y: number } | null;
+  /** Timestamp of the pointerdown that started the swipe */
+  startTime: number;
+};
+
+/**
+ * SwipeGesture class for handling swipe interactions
+ *
+ * This gesture detects when users flick across elements with one or more pointers,
+ * and dispatches a single event with the direction, distance and velocity of the flick.
+ */
+export class SwipeGesture<GestureName extends string> extends PointerGesture<GestureName> {
+  protected state: SwipeGestureState = {
+    startCentroid: null,
+    startTime: 0,
+  };
+
+  protected readonly isSinglePhase!: true;
+  protected readonly eventType!: SwipeEvent;
+  protected readonly optionsType!: SwipeGestureOptions<GestureName>;
+  protected readonly mutableOptionsType!: Omit<typeof this.optionsType, 'name'>;
+  protected readonly mutableStateType!: never;
+
+  /**
+   * Minimum average velocity of the swipe in pixels per second
+   */
+  private minVelocity: number;
+
+  /**
+   * Minimum distance in pixels the pointers must move
+   */
+  private minDistance: number;
+
+  /**
+   * Maximum time in milliseconds between the pointerdown and the release
+   */
+  private maxDuration: number;
+
+  /**
+   * Allowed directions for the swipe
+   * Default allows all directions
+   */
+  private direction: Array<'up' | 'down' | 'left' | 'right'>;
+
+  constructor(options: SwipeGestureOptions<GestureName>) {
+    super(options);
+    this.minVelocity = options.minVelocity ?? 300;
+    this.minDistance = options.minDistance ?? 30;
+    this.maxDuration = options.maxDuration ?? 300;
+    this.direction = options.direction || ['up', 'down', 'left', 'right'];
+  }
+
+  public getOptions(): SwipeGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
+      minVelocity: this.minVelocity,
+      minDistance: this.minDistance,
+      maxDuration: this.maxDuration,
+      direction: [...this.direction],
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): SwipeGesture<GestureName> {
+    return new SwipeGesture({
+      ...this.getOptions(),
+      // Apply any overrides passed to the method
+      ...overrides,
+    });
+  }
+
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    return getDirectionalTouchGestures(this.direction, this.minPointers);
+  }
+
+  public destroy(): void {
+    this.resetState();
+    super.destroy();
+  }
+
+  protected updateOptions(options: typeof this.mutableOptionsType): void {
+    super.updateOptions(options);
+
+    this.minVelocity = options.minVelocity ?? this.minVelocity;
+    this.minDistance = options.minDistance ?? this.minDistance;
+    this.maxDuration = options.maxDuration ?? this.maxDuration;
+    this.direction = options.direction || this.direction;
+  }
+
+  protected resetState(): void {
+    this.isActive = false;
+    this.state = {
+      startCentroid: null,
+      startTime: 0,
+    };
+  }
+
+  /**
+   * Handle pointer events for the swipe gesture
+   */
+  protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
+    const pointersArray = Array.from(pointers.values());
+
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      this.failSwipe();
+      return;
+    }
+
+    // Find which element (if any) is being targeted
+    const targetElement = this.getTargetElement(event);
+    if (!targetElement) return;
+
+    // Filter pointers to only include those targeting our element or its children
+    const relevantPointers = this.getRelevantPointers(pointersArray, targetElement);
+
+    // Check if we have enough pointers and not too many
+    if (
+      this.shouldPreventGesture(targetElement) ||
+      relevantPointers.length < this.minPointers ||
+      relevantPointers.length > this.maxPointers
+    ) {
+      this.failSwipe();
+      return;
+    }
+
+    switch (event.type) {
+      case 'pointerdown':
+        // Only track swipes started with the required modifier keys.
+        // A pointer added during the swipe starts it again from the new centroid.
+        if (this.matchesModifiers(event)) {
+          this.state.startCentroid = calculateCentroid(relevantPointers);
+          this.state.startTime = event.timeStamp;
+          this.isActive = true;
+
+          // Store the original target element
+          this.originalTarget = targetElement;
+        }
+        break;
+
+      case 'pointermove':
+        // A swipe taking too long is a drag, it can't be recognized anymore
+        if (this.isActive && event.timeStamp - this.state.startTime > this.maxDuration) {
+          this.failSwipe();
+        }
+        break;
+
+      case 'pointerup':
+        if (this.isActive && this.state.startCentroid) {
+          const startCentroid = this.state.startCentroid;
+          const endCentroid = calculateCentroid(relevantPointers);
+          const duration = event.timeStamp - this.state.startTime;
+
+          const deltaX = endCentroid.x - startCentroid.x;
+          const deltaY = endCentroid.y - startCentroid.y;
+          const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
+          const velocity = duration > 0 ? (distance / duration) * 1000 : 0;
+          const direction = getDirection(startCentroid, endCentroid);
+
+          if (
+            duration > this.maxDuration ||
+            distance < this.minDistance ||
+            velocity < this.minVelocity ||
+            !isDirectionAllowed(direction, this.direction)
+          ) {
+            this.failSwipe();
+            return;
+          }
+
+          // Fire the swipe event, unless it has to wait for other gestures to fail first
+          this.requestRecognition(() =>
+            this.fireSwipeEvent(
+              targetElement,
+              relevantPointers,
+              event,
+              startCentroid,
+              endCentroid,
+              direction,
+              duration
+            )
+          );
+
+          this.resetState();
+        }
+        break;
+
+      case 'pointercancel':
+        this.failSwipe();
+        break;
+    }
+  }
+
+  /**
+   * Fire the swipe event when a valid swipe is detected
+   */
+  private fireSwipeEvent(
+    element: TargetElement,
+    pointers: PointerData[],
+    event: PointerEvent,
+    startCentroid: { x: number; y: number },
+    endCentroid: { x: number; y: number },
+    direction: Direction,
+    duration: number
+  ): void {
+    // Get list of active gestures
+    const activeGestures = this.gesturesRegistry.getActiveGestures(element);
+
+    const deltaX = endCentroid.x - startCentroid.x;
+    const deltaY = endCentroid.y - startCentroid.y;
+    const velocityX = (deltaX / duration) * 1000;
+    const velocityY = (deltaY / duration) * 1000;
+
+    // Create custom event data for the swipe event
+    const customEventData: SwipeGestureEventData = {
+      gestureName: this.name,
+      initialCentroid: startCentroid,
+      centroid: endCentroid,
+      coordinates: this.getCoordinates(endCentroid),
+      target: event.target,
+      targetId: this.getTargetId(event),
+      srcEvent: event,
+      modifiers: getModifiers(event),
+      phase: 'end', // The swipe is complete, so we use 'end' state for the event data
+      pointers,
+      timeStamp: event.timeStamp,
+      direction,
+      deltaX,
+      deltaY,
+      distance: Math.sqrt(deltaX * deltaX + deltaY * deltaY),
+      velocityX,
+      velocityY,
+      velocity: Math.sqrt(velocityX * velocityX + velocityY * velocityY),
+      duration,
+      activeGestures,
+      customData: this.customData,
+    };
+
+    this.setRecognizerState('recognized');
+
+    // Dispatch a single 'swipe' event (not 'swipeStart', 'swipeEnd', etc.)
+    const domEvent = new CustomEvent(this.name, {
+      bubbles: true,
+      cancelable: true,
+      detail: customEventData,
+    });
+
+    this.dispatchGestureEvent(element, domEvent);
+
+    // Apply preventDefault/stopPropagation if configured
+    if (this.preventDefault) {
+      event.preventDefault();
+    }
+
+    if (this.stopPropagation) {
+      event.stopPropagation();
+    }
+  }
+
+  /**
+   * Stop tracking the current swipe, which can't be recognized anymore
+   */
+  private failSwipe(): void {
+    if (this.isActive) {
+      this.setRecognizerState('failed');
+    }
+
+    this.resetState();
+  }
+}
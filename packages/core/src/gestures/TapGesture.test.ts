@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { HeadlessGestureEngine } from '../HeadlessGestureEngine';
+import { TapGesture } from './TapGesture';
+
+/**
+ * Create an engine with a tap waiting for a double tap to fail, on the same target
+ */
+function createEngine() {
+  const engine = new HeadlessGestureEngine({
+    gestures: [
+      new TapGesture({ name: 'tap', requireFailureOf: ['doubleTap'] }),
+      new TapGesture({ name: 'doubleTap', taps: 2 }),
+    ],
+  });
+  engine.createTarget('node');
+  engine.registerTarget(['tap', 'doubleTap'], 'node');
+
+  return engine;
+}
+
+/**
+ * Tap on the target, returning the types of the events recognized during the tap
+ */
+function tap(engine: ReturnType<typeof createEngine>, timeStamp: number): string[] {
+  const pointer = { targetId: 'node', pointerId: 1, clientX: 10, clientY: 10 };
+
+  return [
+    ...engine.processPointer({ ...pointer, type: 'pointerdown', timeStamp }),
+    ...engine.processPointer({ ...pointer, type: 'pointerup', timeStamp: timeStamp + 50 }),
+  ].map(event => event.type);
+}
+
+describe('TapGesture', () => {
+  it('recognizes a single tap once the double tap timed out on the clock of the samples', () => {
+    const engine = createEngine();
+
+    expect(tap(engine, 0)).toEqual([]);
+    expect(engine.advanceTime(349)).toEqual([]);
+
+    const events = engine.advanceTime(350);
+    expect(events.map(event => event.type)).toEqual(['tap']);
+    expect(events[0].detail.timeStamp).toBe(50);
+
+    engine.destroy();
+  });
+
+  it('recognizes a double tap instead of the single tap', () => {
+    const engine = createEngine();
+
+    expect([...tap(engine, 0), ...tap(engine, 120)]).toEqual(['doubleTap']);
+    expect(engine.advanceTime(2000)).toEqual([]);
+
+    engine.destroy();
+  });
+
+  it('recognizes back-to-back double taps', () => {
+    const engine = createEngine();
+
+    const eventTypes = [0, 120, 240, 360].flatMap(timeStamp => tap(engine, timeStamp));
+    eventTypes.push(...engine.advanceTime(2000).map(event => event.type));
+
+    expect(eventTypes).toEqual(['doubleTap', 'doubleTap']);
+
+    engine.destroy();
+  });
+});
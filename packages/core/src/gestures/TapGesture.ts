@@ -6,11 +6,12 @@
  * - The tap is canceled (e.g., moved too far or held too long)
  */
 
-import { GestureState } from '../Gesture';
+import { BrowserTouchGesture, GestureState } from '../Gesture';
 import { PointerGesture, PointerGestureEventData, PointerGestureOptions } from '../PointerGesture';
 import { PointerData } from '../PointerManager';
+import { InternalEvent } from '../types/InternalEvent';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, createEventName } from '../utils';
+import { calculateCentroid, createEventName, getModifiers } from '../utils';
 
 /**
  * Configuration options for TapGesture
@@ -28,6 +29,13 @@ export type TapGestureOptions<GestureName extends string> = PointerGestureOption
    * @default 1
    */
   taps?: number;
+
+  /**
+   * Maximum time in milliseconds between two taps of a sequence.
+   * Past it, the sequence fails, which lets the gestures waiting for this one to fail recognize.
+   * @default 300
+   */
+  tapInterval?: number;
 };
 
 /**
@@ -61,6 +69,8 @@ export type TapGestureState = GestureState & {
   currentTapCount: number;
   /** Timestamp of the last tap */
   lastTapTime: number;
+  /** Cancels the timer failing the sequence after the tap interval, null when none is scheduled */
+  cancelIntervalTimer: (() => void) | null;
   /** The most recent centroid position during the gesture */
   lastPosition: { x: number; y: number } | null;
 };
@@ -76,6 +86,7 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
     startCentroid: null,
     currentTapCount: 0,
     lastTapTime: 0,
+    cancelIntervalTimer: null,
     lastPosition: null,
   };
 
@@ -95,28 +106,40 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
    */
   private taps: number;
 
+  /**
+   * Maximum time in milliseconds between two taps of a sequence
+   */
+  private tapInterval: number;
+
   constructor(options: TapGestureOptions<GestureName>) {
     super(options);
     this.maxDistance = options.maxDistance ?? 10;
     this.taps = options.taps ?? 1;
+    this.tapInterval = options.tapInterval ?? 300;
   }
 
-  public clone(overrides?: Record<string, unknown>): TapGesture<GestureName> {
-    return new TapGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
-      threshold: this.threshold,
-      minPointers: this.minPointers,
-      maxPointers: this.maxPointers,
+  public getOptions(): TapGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
       maxDistance: this.maxDistance,
       taps: this.taps,
-      preventIf: [...this.preventIf],
+      tapInterval: this.tapInterval,
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): TapGesture<GestureName> {
+    return new TapGesture({
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
   }
 
+  protected getCompetingTouchGestures(): BrowserTouchGesture[] {
+    // Multiple taps would zoom the page
+    return this.taps > 1 ? ['double-tap-zoom'] : [];
+  }
+
   public destroy(): void {
     this.resetState();
     super.destroy();
@@ -127,24 +150,48 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
 
     this.maxDistance = options.maxDistance ?? this.maxDistance;
     this.taps = options.taps ?? this.taps;
+    this.tapInterval = options.tapInterval ?? this.tapInterval;
+  }
+
+  public isTracking(): boolean {
+    // A tap sequence that has started is still tracked between taps
+    return this.isActive || this.state.currentTapCount > 0;
   }
 
   protected resetState(): void {
+    this.clearIntervalTimer();
     this.isActive = false;
     this.state = {
       startCentroid: null,
       currentTapCount: 0,
       lastTapTime: 0,
+      cancelIntervalTimer: null,
       lastPosition: null,
     };
   }
 
+  /**
+   * Clear the timer of the tap interval if it's scheduled
+   */
+  private clearIntervalTimer(): void {
+    if (this.state.cancelIntervalTimer !== null) {
+      this.state.cancelIntervalTimer();
+      this.state.cancelIntervalTimer = null;
+    }
+  }
+
   /**
    * Handle pointer events for the tap gesture
    */
   protected handlePointerEvent(pointers: Map<number, PointerData>, event: PointerEvent): void {
     const pointersArray = Array.from(pointers.values());
 
+    // Check for our special forceReset flag to handle interrupted gestures (from contextmenu, blur)
+    if ((event as InternalEvent).forceReset) {
+      this.cancelTap(this.element, pointersArray, event);
+      return;
+    }
+
     // Find which element (if any) is being targeted
     const targetElement = this.getTargetElement(event);
     if (!targetElement) return;
@@ -167,7 +214,8 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
 
     switch (event.type) {
       case 'pointerdown':
-        if (!this.isActive) {
+        // Only track taps started with the required modifier keys
+        if (!this.isActive && this.matchesModifiers(event)) {
           // Calculate and store the starting centroid
           this.state.startCentroid = calculateCentroid(relevantPointers);
           this.state.lastPosition = { ...this.state.startCentroid };
@@ -210,8 +258,12 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
 
           // Check if we've reached the desired number of taps
           if (this.state.currentTapCount >= this.taps) {
-            // The complete tap sequence has been detected - fire the tap event
-            this.fireTapEvent(targetElement, relevantPointers, event, position);
+            // The complete tap sequence has been detected - fire the tap event,
+            // unless it has to wait for other gestures to fail first
+            const tapCount = this.state.currentTapCount;
+            this.requestRecognition(() =>
+              this.fireTapEvent(targetElement, relevantPointers, event, position, tapCount)
+            );
 
             // Reset state after successful tap
             this.resetState();
@@ -227,15 +279,17 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
             this.state.startCentroid = null;
 
             // Start a timeout to reset the tap count if the next tap doesn't come soon enough
-            setTimeout(() => {
-              if (
-                this.state &&
-                this.state.currentTapCount > 0 &&
-                this.state.currentTapCount < this.taps
-              ) {
+            this.clearIntervalTimer();
+            this.state.cancelIntervalTimer = this.pointerManager.requestTimeout(() => {
+              this.state.cancelIntervalTimer = null;
+              if (this.state.currentTapCount > 0 && this.state.currentTapCount < this.taps) {
                 this.state.currentTapCount = 0;
+
+                // The sequence timed out, but a new one can start right away
+                this.setRecognizerState('failed');
+                this.setRecognizerState('possible');
               }
-            }, 300); // 300ms is a typical double-tap detection window
+            }, this.tapInterval);
           }
         }
         break;
@@ -254,7 +308,8 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
     element: TargetElement,
     pointers: PointerData[],
     event: PointerEvent,
-    position: { x: number; y: number }
+    position: { x: number; y: number },
+    tapCount: number
   ): void {
     // Get list of active gestures
     const activeGestures = this.gesturesRegistry.getActiveGestures(element);
@@ -263,18 +318,23 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
     const customEventData: TapGestureEventData = {
       gestureName: this.name,
       centroid: position,
+      coordinates: this.getCoordinates(position),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: 'end', // The tap is complete, so we use 'end' state for the event data
       pointers,
       timeStamp: event.timeStamp,
       x: position.x,
       y: position.y,
-      tapCount: this.state.currentTapCount,
+      tapCount,
       activeGestures,
       customData: this.customData,
     };
 
+    this.setRecognizerState('recognized');
+
     // Dispatch a single 'tap' event (not 'tapStart', 'tapEnd', etc.)
     const domEvent = new CustomEvent(this.name, {
       bubbles: true,
@@ -282,7 +342,7 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
       detail: customEventData,
     });
 
-    element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(element, domEvent);
 
     // Apply preventDefault/stopPropagation if configured
     if (this.preventDefault) {
@@ -308,8 +368,11 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
       const customEventData: TapGestureEventData = {
         gestureName: this.name,
         centroid: position!,
+        coordinates: this.getCoordinates(position!),
         target: event.target,
+        targetId: this.getTargetId(event),
         srcEvent: event,
+        modifiers: getModifiers(event),
         phase: 'cancel',
         pointers,
         timeStamp: event.timeStamp,
@@ -328,7 +391,9 @@ export class TapGesture<GestureName extends string> extends PointerGesture<Gestu
         detail: customEventData,
       });
 
-      element.dispatchEvent(domEvent);
+      this.dispatchGestureEvent(element, domEvent);
+
+      this.setRecognizerState('failed');
     }
 
     this.resetState();
@@ -10,9 +10,10 @@
 
 import { ActiveGesturesRegistry } from '../ActiveGesturesRegistry';
 import { Gesture, GestureEventData, GestureOptions, GestureState } from '../Gesture';
+import { GestureEventBatcher } from '../GestureEventBatcher';
 import { PointerData, PointerManager } from '../PointerManager';
 import { TargetElement } from '../types/TargetElement';
-import { calculateCentroid, createEventName } from '../utils';
+import { calculateCentroid, createEventName, getModifiers } from '../utils';
 
 /**
  * Configuration options for the TurnWheelGesture
@@ -171,17 +172,20 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
     this.handleWheelEventBound = this.handleWheelEvent.bind(this);
   }
 
-  public clone(overrides?: Record<string, unknown>): TurnWheelGesture<GestureName> {
-    return new TurnWheelGesture({
-      name: this.name,
-      preventDefault: this.preventDefault,
-      stopPropagation: this.stopPropagation,
+  public getOptions(): TurnWheelGestureOptions<GestureName> {
+    return {
+      ...super.getOptions(),
       sensitivity: this.sensitivity,
       max: this.max,
       min: this.min,
       initialDelta: this.initialDelta,
       invert: this.invert,
-      preventIf: [...this.preventIf],
+    };
+  }
+
+  public clone(overrides?: Record<string, unknown>): TurnWheelGesture<GestureName> {
+    return new TurnWheelGesture({
+      ...this.getOptions(),
       // Apply any overrides passed to the method
       ...overrides,
     });
@@ -190,9 +194,10 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
   public init(
     element: TargetElement,
     pointerManager: PointerManager,
-    gestureRegistry: ActiveGesturesRegistry<GestureName>
+    gestureRegistry: ActiveGesturesRegistry<GestureName>,
+    eventBatcher?: GestureEventBatcher
   ): void {
-    super.init(element, pointerManager, gestureRegistry);
+    super.init(element, pointerManager, gestureRegistry, eventBatcher);
 
     // Add event listener directly to the element
     this.element.addEventListener('wheel', this.handleWheelEventBound);
@@ -235,6 +240,11 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
       return;
     }
 
+    // Leave the wheel events without the required modifier keys to the browser, like scrolling
+    if (!this.matchesModifiers(event)) {
+      return;
+    }
+
     // Get pointers from the PointerManager to use for centroid calculation
     const pointers = this.pointerManager.getPointers() || new Map();
     const pointersArray = Array.from(pointers.values());
@@ -262,6 +272,21 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
     this.emitWheelEvent(pointersArray, event);
   }
 
+  /**
+   * Merge two wheel events held in the same animation frame, adding up their deltas
+   */
+  protected mergeEventData(
+    previous: TurnWheelGestureEventData,
+    next: TurnWheelGestureEventData
+  ): TurnWheelGestureEventData {
+    return {
+      ...next,
+      deltaX: previous.deltaX + next.deltaX,
+      deltaY: previous.deltaY + next.deltaY,
+      deltaZ: previous.deltaZ + next.deltaZ,
+    };
+  }
+
   /**
    * Emit wheel-specific events
    * @param pointers The current pointers on the element
@@ -279,8 +304,11 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
     const customEventData: TurnWheelGestureEventData = {
       gestureName: this.name,
       centroid,
+      coordinates: this.getCoordinates(centroid),
       target: event.target,
+      targetId: this.getTargetId(event),
       srcEvent: event,
+      modifiers: getModifiers(event),
       phase: 'ongoing', // Wheel events are always in "ongoing" state
       pointers,
       timeStamp: event.timeStamp,
@@ -307,6 +335,8 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
     // Event names to trigger
     const eventName = createEventName(this.name, 'ongoing');
 
+    this.setRecognizerState('recognized');
+
     // Dispatch custom events on the element
     const domEvent = new CustomEvent(eventName, {
       bubbles: true,
@@ -314,6 +344,9 @@ export class TurnWheelGesture<GestureName extends string> extends Gesture<Gestur
       detail: customEventData,
     });
 
-    this.element.dispatchEvent(domEvent);
+    this.dispatchGestureEvent(this.element, domEvent);
+
+    // Wheel events are discrete, so the gesture is ready to be recognized again right away
+    this.setRecognizerState('possible');
   }
 }
@@ -9,31 +9,117 @@ export { Gesture } from './Gesture';
 export { GestureManager } from './GestureManager';
 export { PointerGesture } from './PointerGesture';
 export { PointerManager } from './PointerManager';
+export { TRACE_VERSION, TraceRecorder } from './TraceRecorder';
+
+// Export the headless engine
+export { HeadlessGestureEngine } from './HeadlessGestureEngine';
+export { VirtualTarget } from './VirtualTarget';
+
+// Export the custom gesture API
+export { DefinedGesture, defineGesture } from './defineGesture';
 
 // Export gesture implementations
+export { EdgeSwipeGesture } from './gestures/EdgeSwipeGesture';
 export { MoveGesture } from './gestures/MoveGesture';
 export { PanGesture } from './gestures/PanGesture';
 export { PinchGesture } from './gestures/PinchGesture';
+export { PressAndDragGesture } from './gestures/PressAndDragGesture';
 export { PressGesture } from './gestures/PressGesture';
 export { RotateGesture } from './gestures/RotateGesture';
+export { SwipeGesture } from './gestures/SwipeGesture';
 export { TapGesture } from './gestures/TapGesture';
 export { TurnWheelGesture } from './gestures/TurnWheelGesture';
 
+// Export utilities for framework bindings
+export { createEventName } from './utils/createEventName';
+export { isSameOptions } from './utils/isSameOptions';
+
 // Export types
-export type { GestureEventData, GestureOptions, GesturePhase } from './Gesture';
+export type {
+  BrowserTouchGesture,
+  GestureEventData,
+  GestureModifiers,
+  GestureOptions,
+  GesturePhase,
+  GestureRecognizerState,
+} from './Gesture';
 export type { PointerGestureEventData, PointerGestureOptions } from './PointerGesture';
 
-export type { PointerData, PointerManagerOptions } from './PointerManager';
+export type {
+  HitTestFunction,
+  PointerData,
+  PointerManagerOptions,
+  PointerSample,
+} from './PointerManager';
+
+export type { GestureDispatchMode } from './GestureEventBatcher';
+export type {
+  AnyGestureManager,
+  GestureEvent,
+  GestureEventName,
+  GestureHandlers,
+  GestureManagerEventMap,
+  GestureManagerGestureName,
+  GestureManagerOptions,
+  GestureManagerOptionsMap,
+} from './GestureManager';
+
+export type {
+  GestureTrace,
+  GestureTraceEvent,
+  GestureTraceGesture,
+  GestureTraceInterruptEvent,
+  GestureTracePointer,
+  GestureTracePointerEvent,
+  GestureTraceWheelEvent,
+  TraceRecorderOptions,
+} from './TraceRecorder';
+
+export type {
+  HeadlessGestureEngineOptions,
+  HeadlessGestureEvent,
+  HeadlessPointerData,
+  HeadlessPointerSample,
+  HeadlessWheelSample,
+} from './HeadlessGestureEngine';
+export type { VirtualTargetDispatchListener } from './VirtualTarget';
 
-export type { GestureManagerOptions } from './GestureManager';
+export type {
+  DefinedGestureConstructor,
+  DefinedGestureEvent,
+  DefinedGestureEventData,
+  DefinedGestureOptions,
+  GestureDefinition,
+  GestureReducer,
+  GestureReducerContext,
+  GestureReducerResult,
+  ResolvedPointerGestureOptions,
+} from './defineGesture';
 
+export type {
+  EdgeSwipeEdge,
+  EdgeSwipeEvent,
+  EdgeSwipeGestureEventData,
+  EdgeSwipeGestureOptions,
+} from './gestures/EdgeSwipeGesture';
 export type { MoveEvent, MoveGestureEventData, MoveGestureOptions } from './gestures/MoveGesture';
-export type { PanEvent, PanGestureEventData, PanGestureOptions } from './gestures/PanGesture';
+export type {
+  PanDeltas,
+  PanStylusData,
+  PanEvent,
+  PanGestureEventData,
+  PanGestureOptions,
+} from './gestures/PanGesture';
 export type {
   PinchEvent,
   PinchGestureEventData,
   PinchGestureOptions,
 } from './gestures/PinchGesture';
+export type {
+  PressAndDragEvent,
+  PressAndDragGestureEventData,
+  PressAndDragGestureOptions,
+} from './gestures/PressAndDragGesture';
 export type {
   PressEvent,
   PressGestureEventData,
@@ -44,6 +130,11 @@ export type {
   RotateGestureEventData,
   RotateGestureOptions,
 } from './gestures/RotateGesture';
+export type {
+  SwipeEvent,
+  SwipeGestureEventData,
+  SwipeGestureOptions,
+} from './gestures/SwipeGesture';
 export type { TapEvent, TapGestureEventData, TapGestureOptions } from './gestures/TapGesture';
 export type {
   TurnWheelEvent,
@@ -51,4 +142,8 @@ export type {
   TurnWheelGestureOptions,
 } from './gestures/TurnWheelGesture';
 
+export type { CoordinateSpaces, CoordinateTransform } from './types/CoordinateSpaces';
+export type { FrameScheduler } from './types/FrameScheduler';
 export type { GestureElement } from './types/GestureElement';
+export type { TargetElement } from './types/TargetElement';
+export type { TimeoutScheduler } from './types/TimeoutScheduler';
@@ -0,0 +1,34 @@
+/**
+ * Affine transform from viewport coordinates to another coordinate space.
+ * Uses the same fields as DOMMatrix: x' = a * x + c * y + e, y' = b * x + d * y + f
+ */
+export type CoordinateTransform = {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+};
+
+/**
+ * Values expressed in the coordinate spaces of the element a gesture is registered on.
+ */
+export type CoordinateSpaces<T> = {
+  /**
+   * Relative to the top-left corner of the element, in CSS pixels of the element before its
+   * transforms, so the axes follow the rotations and skews of HTML elements.
+   * Elements without a box, like headless virtual targets, use the viewport.
+   */
+  local: T;
+  /**
+   * Relative to the box of the element, from 0 at the top-left corner to 1 at the bottom-right
+   * corner. SVG elements use their bounding box. Null when the element has no box.
+   */
+  normalized: T | null;
+  /**
+   * In the SVG user space of the element, which accounts for the `viewBox` and the transforms.
+   * Null when the element isn't an SVG element.
+   */
+  svg: T | null;
+};
@@ -0,0 +1,6 @@
+/**
+ * Function scheduling a callback for the next animation frame.
+ * The callback gets the time of the frame, on the timeline of the pointer event timestamps.
+ * Returns a function cancelling the scheduled callback.
+ */
+export type FrameScheduler = (callback: (time: number) => void) => () => void;
@@ -0,0 +1,11 @@
+/**
+ * The smoothed velocity of the latest movements of the pointers
+ */
+export type SmoothedVelocity = {
+  /** Horizontal velocity in pixels per second */
+  x: number;
+  /** Vertical velocity in pixels per second */
+  y: number;
+  /** Time stamp of the latest movement, null before the pointers move */
+  timeStamp: number | null;
+};
@@ -1,4 +1,7 @@
+import type { VirtualTarget } from '../VirtualTarget';
+
 /**
  * This type is used to represent a target element for gestures.
+ * Virtual targets stand in for elements in scenes without DOM nodes, like canvas scenes.
  */
-export type TargetElement = HTMLElement | SVGElement;
+export type TargetElement = HTMLElement | SVGElement | VirtualTarget;
@@ -0,0 +1,5 @@
+/**
+ * Function scheduling a callback after a delay in milliseconds, like the press duration.
+ * Returns a function cancelling the scheduled callback.
+ */
+export type TimeoutScheduler = (callback: () => void, delay: number) => () => void;
@@ -0,0 +1,36 @@
+/**
+ * Convert the tilt angles of a pen, in degrees, to its altitude and azimuth angles, in radians.
+ * Used for browsers that only report the tilt angles, following the Pointer Events spec.
+ */
+export function convertTiltToSpherical(
+  tiltX: number,
+  tiltY: number
+): { altitudeAngle: number; azimuthAngle: number } {
+  const tiltXRad = (tiltX * Math.PI) / 180;
+  const tiltYRad = (tiltY * Math.PI) / 180;
+  const isFlat = Math.abs(tiltX) === 90 || Math.abs(tiltY) === 90;
+
+  let azimuthAngle = 0;
+  if (tiltX === 0) {
+    if (tiltY > 0) azimuthAngle = Math.PI / 2;
+    else if (tiltY < 0) azimuthAngle = (3 * Math.PI) / 2;
+  } else if (tiltY === 0) {
+    if (tiltX < 0) azimuthAngle = Math.PI;
+  } else if (!isFlat) {
+    azimuthAngle = Math.atan2(Math.tan(tiltYRad), Math.tan(tiltXRad));
+    if (azimuthAngle < 0) azimuthAngle += 2 * Math.PI;
+  }
+
+  let altitudeAngle = 0;
+  if (isFlat) {
+    altitudeAngle = 0;
+  } else if (tiltX === 0) {
+    altitudeAngle = Math.PI / 2 - Math.abs(tiltYRad);
+  } else if (tiltY === 0) {
+    altitudeAngle = Math.PI / 2 - Math.abs(tiltXRad);
+  } else {
+    altitudeAngle = Math.atan(1 / Math.sqrt(Math.tan(tiltXRad) ** 2 + Math.tan(tiltYRad) ** 2));
+  }
+
+  return { altitudeAngle, azimuthAngle };
+}
@@ -0,0 +1,17 @@
+import { InternalEvent } from '../types/InternalEvent';
+
+/**
+ * Creates a synthetic pointercancel event flagged to force a reset of the gestures.
+ * Falls back to a plain event where PointerEvent isn't available, like in Web Workers or Node.
+ */
+export function createForceResetEvent(): InternalEvent {
+  const eventInit = { bubbles: true, cancelable: true };
+  const event = (
+    typeof PointerEvent !== 'undefined'
+      ? new PointerEvent('pointercancel', eventInit)
+      : new Event('pointercancel', eventInit)
+  ) as InternalEvent;
+
+  event.forceReset = true;
+  return event;
+}
@@ -0,0 +1,37 @@
+/**
+ * Creates a synthetic pointer event from the pointer event that caused it, with no button change.
+ * Used for the pointerenter and pointerleave events of virtual targets, which the browser doesn't
+ * dispatch, and to start a gesture in the middle of an interaction, like the drag of a press and
+ * drag. Falls back to a plain event where PointerEvent isn't available, like in Web Workers or Node.
+ */
+export function createPointerEvent(
+  type: 'pointerenter' | 'pointerleave' | 'pointerdown',
+  srcEvent: PointerEvent
+): PointerEvent {
+  const event = typeof PointerEvent !== 'undefined' ? new PointerEvent(type) : new Event(type);
+
+  // Copy the pointer properties as own properties, since they are read-only on the prototype
+  Object.defineProperties(event, {
+    pointerId: { value: srcEvent.pointerId },
+    pointerType: { value: srcEvent.pointerType },
+    isPrimary: { value: srcEvent.isPrimary },
+    clientX: { value: srcEvent.clientX },
+    clientY: { value: srcEvent.clientY },
+    pageX: { value: srcEvent.pageX },
+    pageY: { value: srcEvent.pageY },
+    pressure: { value: srcEvent.pressure },
+    width: { value: srcEvent.width },
+    height: { value: srcEvent.height },
+    tiltX: { value: srcEvent.tiltX },
+    tiltY: { value: srcEvent.tiltY },
+    twist: { value: srcEvent.twist },
+    altitudeAngle: { value: srcEvent.altitudeAngle },
+    azimuthAngle: { value: srcEvent.azimuthAngle },
+    tangentialPressure: { value: srcEvent.tangentialPressure },
+    button: { value: -1 },
+    buttons: { value: srcEvent.buttons },
+    timeStamp: { value: srcEvent.timeStamp },
+  });
+
+  return event as PointerEvent;
+}
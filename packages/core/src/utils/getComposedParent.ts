@@ -0,0 +1,9 @@
+/**
+ * Get the parent of an element, crossing the boundaries of shadow trees
+ */
+export function getComposedParent(element: Element): Element | null {
+  const parent = element.parentNode;
+  if (parent instanceof Element) return parent;
+  if (typeof ShadowRoot !== 'undefined' && parent instanceof ShadowRoot) return parent.host;
+  return null;
+}
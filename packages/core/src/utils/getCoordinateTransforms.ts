@@ -0,0 +1,100 @@
+import { CoordinateSpaces, CoordinateTransform } from '../types/CoordinateSpaces';
+import { getComposedParent } from './getComposedParent';
+
+const IDENTITY: CoordinateTransform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Get the transform from viewport coordinates to the layout box of an HTML element.
+ *
+ * The linear part combines the computed `transform` of the element and of its ancestors.
+ * The translation is then found from the bounding box, which is the box of the transformed
+ * corners of the element.
+ *
+ * @returns The transform, or null if the transforms of the element can't be inverted
+ */
+function getLayoutTransform(element: HTMLElement, rect: DOMRect): CoordinateTransform | null {
+  let matrix = new DOMMatrix();
+  for (let node: Element | null = element; node; node = getComposedParent(node)) {
+    const { transform } = getComputedStyle(node);
+    if (transform && transform !== 'none') {
+      matrix = new DOMMatrix(transform).multiply(matrix);
+    }
+  }
+
+  const { a, b, c, d } = matrix;
+  const width = element.offsetWidth;
+  const height = element.offsetHeight;
+  const corners = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: 0, y: height },
+    { x: width, y: height },
+  ].map(({ x, y }) => ({ x: a * x + c * y, y: b * x + d * y }));
+
+  const toViewport = new DOMMatrix([
+    a,
+    b,
+    c,
+    d,
+    rect.left - Math.min(...corners.map(corner => corner.x)),
+    rect.top - Math.min(...corners.map(corner => corner.y)),
+  ]);
+  const inverse = toViewport.inverse();
+
+  if (!Number.isFinite(inverse.a)) return null;
+  return { a: inverse.a, b: inverse.b, c: inverse.c, d: inverse.d, e: inverse.e, f: inverse.f };
+}
+
+/**
+ * Get the transforms from viewport coordinates to the coordinate spaces of an element.
+ *
+ * The local and normalized spaces of HTML elements follow the exact transforms of the element
+ * and its ancestors, including rotations and skews. Other elements, like SVG elements, use their
+ * bounding box for these spaces, and the exact transform from `getScreenCTM()` in the SVG user
+ * space.
+ *
+ * The computed styles of the ancestors are read, so the gestures compute the transforms once
+ * per gesture rather than on every event.
+ *
+ * @param element - The element, or null for elements without a box
+ */
+export function getCoordinateTransforms(
+  element: Element | null
+): CoordinateSpaces<CoordinateTransform> {
+  if (!element) {
+    return { local: IDENTITY, normalized: null, svg: null };
+  }
+
+  const rect = element.getBoundingClientRect();
+
+  // Elements without a layout box, like SVG elements, use their bounding box
+  const local = (element instanceof HTMLElement && getLayoutTransform(element, rect)) || {
+    a: 1,
+    b: 0,
+    c: 0,
+    d: 1,
+    e: -rect.left,
+    f: -rect.top,
+  };
+  const width = element instanceof HTMLElement ? element.offsetWidth : rect.width;
+  const height = element instanceof HTMLElement ? element.offsetHeight : rect.height;
+
+  const normalized =
+    width && height
+      ? {
+          a: local.a / width,
+          b: local.b / height,
+          c: local.c / width,
+          d: local.d / height,
+          e: local.e / width,
+          f: local.f / height,
+        }
+      : null;
+
+  // The screen CTM maps the user space to the viewport, so its inverse maps the pointers back
+  const screenCTM =
+    'getScreenCTM' in element ? (element as SVGGraphicsElement).getScreenCTM() : null;
+  const svg = screenCTM ? screenCTM.inverse() : null;
+
+  return { local, normalized, svg };
+}
@@ -0,0 +1,30 @@
+import type { BrowserTouchGesture } from '../Gesture';
+
+/**
+ * Get the browser touch gestures competing with a gesture moving along some directions.
+ * Only the scrolling along the allowed directions competes with the gesture,
+ * and gestures with several pointers also compete with the pinch zoom.
+ *
+ * @param allowedDirections - The directions the gesture can move in
+ * @param minPointers - The minimum number of pointers of the gesture
+ * @returns The browser touch gestures to block on the elements of the gesture
+ */
+export function getDirectionalTouchGestures(
+  allowedDirections: Array<'up' | 'down' | 'left' | 'right'>,
+  minPointers: number
+): BrowserTouchGesture[] {
+  const blocked: BrowserTouchGesture[] = [];
+
+  if (allowedDirections.includes('left') || allowedDirections.includes('right')) {
+    blocked.push('pan-x');
+  }
+  if (allowedDirections.includes('up') || allowedDirections.includes('down')) {
+    blocked.push('pan-y');
+  }
+
+  if (minPointers > 1) {
+    blocked.push('pinch-zoom');
+  }
+
+  return blocked;
+}
@@ -0,0 +1,16 @@
+import type { GestureModifiers } from '../Gesture';
+
+/**
+ * Get the state of the keyboard modifier keys during an event.
+ * Events without modifier keys, like interruptions, have no key pressed.
+ */
+export function getModifiers(event: Event): GestureModifiers {
+  const { shiftKey, ctrlKey, altKey, metaKey } = event as Partial<MouseEvent>;
+
+  return {
+    shift: shiftKey ?? false,
+    ctrl: ctrlKey ?? false,
+    alt: altKey ?? false,
+    meta: metaKey ?? false,
+  };
+}
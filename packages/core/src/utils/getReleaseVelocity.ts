@@ -0,0 +1,23 @@
+import type { SmoothedVelocity } from '../types/SmoothedVelocity';
+
+/** Time without movement before the release after which the pointers have no velocity, in ms */
+const RELEASE_DELAY = 100;
+
+/**
+ * Get the velocity of the pointers when they are released,
+ * which is zero when they stopped moving before the release
+ *
+ * @param velocity - The smoothed velocity of the latest movements
+ * @param timeStamp - The time stamp of the release
+ * @returns The velocity at the release
+ */
+export function getReleaseVelocity(
+  velocity: SmoothedVelocity,
+  timeStamp: number
+): SmoothedVelocity {
+  if (velocity.timeStamp === null || timeStamp - velocity.timeStamp > RELEASE_DELAY) {
+    return { x: 0, y: 0, timeStamp: velocity.timeStamp };
+  }
+
+  return velocity;
+}
@@ -0,0 +1,23 @@
+import type { BrowserTouchGesture } from '../Gesture';
+
+/**
+ * Get the least restrictive `touch-action` CSS value disabling the given browser touch gestures.
+ * The double-tap zoom can only be left to the browser with `auto`, so any other value disables it.
+ *
+ * @example getTouchAction(['pan-x']) // 'pan-y pinch-zoom'
+ */
+export function getTouchAction(blocked: BrowserTouchGesture[]): string {
+  if (blocked.length === 0) {
+    return 'auto';
+  }
+
+  const allowed = (['pan-x', 'pan-y', 'pinch-zoom'] as const).filter(
+    gesture => !blocked.includes(gesture)
+  );
+
+  if (allowed.length === 3) {
+    return 'manipulation';
+  }
+
+  return allowed.length > 0 ? allowed.join(' ') : 'none';
+}
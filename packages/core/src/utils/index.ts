@@ -6,9 +6,28 @@
 export { calculateAverageDistance } from './calculateAverageDistance';
 export { calculateCentroid } from './calculateCentroid';
 export { calculateRotationAngle } from './calculateRotationAngle';
+export { convertTiltToSpherical } from './convertTiltToSpherical';
 export { createEventName } from './createEventName';
+export { createForceResetEvent } from './createForceResetEvent';
+export { createPointerEvent } from './createPointerEvent';
 export { getAngle } from './getAngle';
+export { getComposedParent } from './getComposedParent';
+export { getCoordinateTransforms } from './getCoordinateTransforms';
 export { getDirection } from './getDirection';
+export { getDirectionalTouchGestures } from './getDirectionalTouchGestures';
 export { getDistance } from './getDistance';
+export { getModifiers } from './getModifiers';
+export { getReleaseVelocity } from './getReleaseVelocity';
+export { getTouchAction } from './getTouchAction';
 export { getVelocity } from './getVelocity';
 export { isDirectionAllowed } from './isDirectionAllowed';
+export { isSameOptions } from './isSameOptions';
+export { isWithinElement } from './isWithinElement';
+export { mapCoordinateSpaces } from './mapCoordinateSpaces';
+export { mergePanDeltas } from './mergePanDeltas';
+export { parseTouchAction } from './parseTouchAction';
+export { requestFrame } from './requestFrame';
+export { requestTimeout } from './requestTimeout';
+export { transformPoint } from './transformPoint';
+export { transformVector } from './transformVector';
+export { updateSmoothedVelocity } from './updateSmoothedVelocity';
@@ -0,0 +1,26 @@
+/**
+ * Whether two options objects of a gesture are equal.
+ * Array options, like `direction`, are compared by items, so that options
+ * written inline, or copied from reactive objects, don't update the gesture again.
+ *
+ * @param previous - The options last applied to the gesture
+ * @param next - The new options
+ * @returns True if applying the new options wouldn't change the gesture
+ */
+export function isSameOptions(
+  previous: Record<string, unknown> | undefined,
+  next: Record<string, unknown>
+): boolean {
+  if (!previous) return false;
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys) {
+    const previousValue = previous[key];
+    const nextValue = next[key];
+    if (Object.is(previousValue, nextValue)) continue;
+    if (!Array.isArray(previousValue) || !Array.isArray(nextValue)) return false;
+    if (previousValue.length !== nextValue.length) return false;
+    if (!previousValue.every((item, i) => Object.is(item, nextValue[i]))) return false;
+  }
+  return true;
+}
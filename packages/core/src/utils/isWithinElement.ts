@@ -0,0 +1,20 @@
+import { TargetElement } from '../types/TargetElement';
+
+/**
+ * Check if an event target is an element or one of its descendants, including the descendants
+ * in the open shadow trees of the element.
+ *
+ * Events coming out of a shadow tree are retargeted to its host, so `contains` alone misses the
+ * elements inside it. The composed path of the event still lists them.
+ *
+ * @param element - The element, or virtual target, to check
+ * @param target - The target of the event
+ * @param composedPath - The composed path of the event, empty if it wasn't dispatched
+ */
+export function isWithinElement(
+  element: TargetElement,
+  target: EventTarget | null,
+  composedPath: EventTarget[]
+): boolean {
+  return element === target || composedPath.includes(element) || element.contains(target as Node);
+}
@@ -0,0 +1,15 @@
+import { CoordinateSpaces, CoordinateTransform } from '../types/CoordinateSpaces';
+
+/**
+ * Compute a value in each coordinate space, using the transform of the space
+ */
+export function mapCoordinateSpaces<T>(
+  transforms: CoordinateSpaces<CoordinateTransform>,
+  map: (transform: CoordinateTransform) => T
+): CoordinateSpaces<T> {
+  return {
+    local: map(transforms.local),
+    normalized: transforms.normalized && map(transforms.normalized),
+    svg: transforms.svg && map(transforms.svg),
+  };
+}
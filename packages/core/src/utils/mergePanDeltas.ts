@@ -0,0 +1,26 @@
+import type { PanDeltas } from '../gestures/PanGesture';
+import { CoordinateSpaces } from '../types/CoordinateSpaces';
+
+/**
+ * Merge the deltas of two consecutive pan events, adding up the deltas since the previous
+ * event and keeping the latest totals, in each coordinate space
+ */
+export function mergePanDeltas(
+  previous: CoordinateSpaces<PanDeltas>,
+  next: CoordinateSpaces<PanDeltas>
+): CoordinateSpaces<PanDeltas> {
+  const merge = (previousDeltas: PanDeltas | null, nextDeltas: PanDeltas | null) =>
+    previousDeltas && nextDeltas
+      ? {
+          ...nextDeltas,
+          deltaX: previousDeltas.deltaX + nextDeltas.deltaX,
+          deltaY: previousDeltas.deltaY + nextDeltas.deltaY,
+        }
+      : nextDeltas;
+
+  return {
+    local: merge(previous.local, next.local)!,
+    normalized: merge(previous.normalized, next.normalized),
+    svg: merge(previous.svg, next.svg),
+  };
+}
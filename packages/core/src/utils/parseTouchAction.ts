@@ -0,0 +1,29 @@
+import type { BrowserTouchGesture } from '../Gesture';
+
+/**
+ * Get the browser touch gestures allowed by a `touch-action` CSS value
+ */
+export function parseTouchAction(touchAction: string): BrowserTouchGesture[] {
+  const values = touchAction.trim().split(/\s+/);
+
+  if (values.includes('auto') || touchAction.trim() === '') {
+    return ['pan-x', 'pan-y', 'pinch-zoom', 'double-tap-zoom'];
+  }
+  if (values.includes('manipulation')) {
+    return ['pan-x', 'pan-y', 'pinch-zoom'];
+  }
+
+  const allowed: BrowserTouchGesture[] = [];
+  // Scrolling in a single direction, like `pan-left`, still uses the axis
+  if (values.some(value => value === 'pan-x' || value === 'pan-left' || value === 'pan-right')) {
+    allowed.push('pan-x');
+  }
+  if (values.some(value => value === 'pan-y' || value === 'pan-up' || value === 'pan-down')) {
+    allowed.push('pan-y');
+  }
+  if (values.includes('pinch-zoom')) {
+    allowed.push('pinch-zoom');
+  }
+
+  return allowed;
+}
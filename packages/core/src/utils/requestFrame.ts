@@ -0,0 +1,16 @@
+/**
+ * Schedule a callback for the next animation frame.
+ * Falls back to a timeout where requestAnimationFrame isn't available, like in Node.
+ *
+ * @param callback - The function to call on the next frame, with the time of the frame
+ * @returns Function cancelling the scheduled callback
+ */
+export function requestFrame(callback: (time: number) => void): () => void {
+  if (typeof requestAnimationFrame === 'function') {
+    const frameId = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frameId);
+  }
+
+  const timeoutId = setTimeout(() => callback(performance.now()), 16);
+  return () => clearTimeout(timeoutId);
+}
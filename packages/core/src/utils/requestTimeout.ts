@@ -0,0 +1,11 @@
+/**
+ * Schedule a callback after a delay
+ *
+ * @param callback - The function to call after the delay
+ * @param delay - The delay in milliseconds
+ * @returns Function cancelling the scheduled callback
+ */
+export function requestTimeout(callback: () => void, delay: number): () => void {
+  const timeoutId = setTimeout(callback, delay);
+  return () => clearTimeout(timeoutId);
+}
@@ -0,0 +1,14 @@
+import { CoordinateTransform } from '../types/CoordinateSpaces';
+
+/**
+ * Apply a transform to a point
+ */
+export function transformPoint(
+  transform: CoordinateTransform,
+  point: { x: number; y: number }
+): { x: number; y: number } {
+  return {
+    x: transform.a * point.x + transform.c * point.y + transform.e,
+    y: transform.b * point.x + transform.d * point.y + transform.f,
+  };
+}
@@ -0,0 +1,14 @@
+import { CoordinateTransform } from '../types/CoordinateSpaces';
+
+/**
+ * Apply a transform to a vector, like a delta between two points, ignoring the translation
+ */
+export function transformVector(
+  transform: CoordinateTransform,
+  vector: { x: number; y: number }
+): { x: number; y: number } {
+  return {
+    x: transform.a * vector.x + transform.c * vector.y,
+    y: transform.b * vector.x + transform.d * vector.y,
+  };
+}
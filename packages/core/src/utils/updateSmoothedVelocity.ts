@@ -0,0 +1,36 @@
+import type { SmoothedVelocity } from '../types/SmoothedVelocity';
+
+/** Weight of the latest movement in the smoothed velocity */
+const VELOCITY_SMOOTHING = 0.8;
+
+/**
+ * Smooth the velocity of the latest movement of the pointers with the previous velocity,
+ * so that a single irregular sample doesn't decide the velocity at the release
+ *
+ * @param previous - The smoothed velocity before the movement
+ * @param deltaX - The horizontal movement in pixels
+ * @param deltaY - The vertical movement in pixels
+ * @param timeStamp - The time stamp of the movement
+ * @returns The smoothed velocity after the movement
+ */
+export function updateSmoothedVelocity(
+  previous: SmoothedVelocity,
+  deltaX: number,
+  deltaY: number,
+  timeStamp: number
+): SmoothedVelocity {
+  const elapsed = previous.timeStamp === null ? 0 : timeStamp - previous.timeStamp;
+  if (elapsed <= 0) return { ...previous, timeStamp };
+
+  const velocityX = (deltaX / elapsed) * 1000;
+  const velocityY = (deltaY / elapsed) * 1000;
+
+  // The first movement has no previous velocity to smooth with
+  const weight = previous.x === 0 && previous.y === 0 ? 1 : VELOCITY_SMOOTHING;
+
+  return {
+    x: weight * velocityX + (1 - weight) * previous.x,
+    y: weight * velocityY + (1 - weight) * previous.y,
+    timeStamp,
+  };
+}
@@ -0,0 +1,275 @@
+import {
+  AnyGestureManager,
+  createEventName,
+  EdgeSwipeGesture,
+  Gesture,
+  GestureManager,
+  GesturePhase,
+  MoveGesture,
+  PanGesture,
+  PinchGesture,
+  PressAndDragGesture,
+  PressGesture,
+  RotateGesture,
+  SwipeGesture,
+  TapGesture,
+  TurnWheelGesture,
+} from '@web-gestures/core';
+import { parseList, parseOptionValue, toCamelCase, toKebabCase } from './utils';
+
+/**
+ * Create the gesture template for a gesture name of the `gestures` attribute
+ */
+type GestureFactory = (name: string) => Gesture<string>;
+
+/**
+ * The gestures available in the `gestures` attribute, by name
+ */
+const GESTURE_FACTORIES: Record<string, GestureFactory> = {
+  pan: name => new PanGesture({ name }),
+  pinch: name => new PinchGesture({ name }),
+  rotate: name => new RotateGesture({ name }),
+  swipe: name => new SwipeGesture({ name }),
+  edgeSwipe: name => new EdgeSwipeGesture({ name }),
+  move: name => new MoveGesture({ name }),
+  press: name => new PressGesture({ name }),
+  pressAndDrag: name => new PressAndDragGesture({ name }),
+  tap: name => new TapGesture({ name }),
+  doubleTap: name => new TapGesture({ name, taps: 2 }),
+  turnWheel: name => new TurnWheelGesture({ name }),
+};
+
+/** The phases of a gesture, each emitting its own event */
+const GESTURE_PHASES: GesturePhase[] = ['start', 'ongoing', 'end', 'cancel'];
+
+/** The content of the shadow root, the gestures are registered on the area around the slot */
+const SHADOW_TEMPLATE = `
+  <style>
+    :host { display: block; }
+    [part='area'] { width: 100%; height: 100%; }
+  </style>
+  <div part="area"><slot></slot></div>
+`;
+
+/**
+ * Base class of the element, so that the module can be imported where custom elements
+ * aren't available, like during server-side rendering
+ */
+const BaseElement = (
+  typeof HTMLElement === 'undefined' ? class {} : HTMLElement
+) as typeof HTMLElement;
+
+/**
+ * `<gesture-area>` custom element, recognizing gestures on its content without setup code.
+ *
+ * The gestures are listed in the `gestures` attribute, and their options are set with
+ * attributes prefixed by the kebab-case name of the gesture:
+ *
+ * ```html
+ * <gesture-area gestures="pan pinch doubleTap" pan-direction="left right" pan-threshold="10">
+ *   <img src="photo.jpg" />
+ * </gesture-area>
+ * ```
+ *
+ * The element owns its GestureManager, created when it is connected and destroyed when
+ * it is disconnected. The gesture events, like `panStart` or `doubleTap`, are re-dispatched
+ * on the element as composed events, so they can be listened to from anywhere in the page.
+ *
+ * Changes of the option attributes are applied with `setGestureOptions`, while changes of
+ * the `gestures` attribute create the gestures again. Removing an option attribute keeps
+ * the last value of the option.
+ *
+ * Available gestures: pan, pinch, rotate, swipe, edgeSwipe, move, press, pressAndDrag, tap,
+ * doubleTap, turnWheel.
+ */
+export class GestureAreaElement extends BaseElement {
+  /** The manager of the gestures of the element, null while it is disconnected */
+  private gestureManager: AnyGestureManager | null = null;
+
+  /** The element inside the shadow root the gestures are registered on */
+  private area: HTMLElement;
+
+  /** The names of the gestures created from the `gestures` attribute */
+  private gestureNames: string[] = [];
+
+  /** Removes the listeners re-dispatching the gesture events */
+  private removeEventListeners: (() => void) | null = null;
+
+  /** Observes the attributes, which can't be listed upfront since they depend on the gestures */
+  private attributeObserver: MutationObserver | null = null;
+
+  constructor() {
+    super();
+
+    const shadowRoot = this.attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = SHADOW_TEMPLATE;
+    this.area = shadowRoot.querySelector('[part="area"]') as HTMLElement;
+  }
+
+  connectedCallback(): void {
+    this.setupGestures();
+
+    this.attributeObserver = new MutationObserver(this.handleAttributeChanges);
+    this.attributeObserver.observe(this, { attributes: true });
+  }
+
+  disconnectedCallback(): void {
+    this.attributeObserver?.disconnect();
+    this.attributeObserver = null;
+
+    this.teardownGestures();
+  }
+
+  /**
+   * Create the manager and the gestures listed in the `gestures` attribute,
+   * register them on the area and re-dispatch their events on the element
+   */
+  private setupGestures(): void {
+    const gestures = parseList(this.getAttribute('gestures')).flatMap(name => {
+      const createGesture = GESTURE_FACTORIES[name];
+      if (!createGesture) {
+        console.warn(`Unknown gesture "${name}" in the gestures attribute of <gesture-area>.`);
+        return [];
+      }
+      return [createGesture(name)];
+    });
+
+    this.gestureNames = gestures.map(gesture => gesture.name);
+    if (this.gestureNames.length === 0) return;
+
+    // Track the pointers from the shadow root, to include the slotted content
+    this.gestureManager = new GestureManager({ root: this.shadowRoot!, gestures });
+
+    const options = Object.fromEntries(
+      this.gestureNames.map(name => [name, this.getGestureOptions(name)])
+    );
+    this.gestureManager.registerElement(this.gestureNames, this.area, options);
+
+    // The gesture events don't leave the shadow root, so they are dispatched again on the host
+    const listeners = this.gestureNames.flatMap(name =>
+      GESTURE_PHASES.map(phase => {
+        const eventName = createEventName(name, phase);
+        const listener = (event: Event) => this.redispatchEvent(event as CustomEvent);
+        this.area.addEventListener(eventName, listener);
+        return [eventName, listener] as const;
+      })
+    );
+
+    this.removeEventListeners = () => {
+      listeners.forEach(([eventName, listener]) =>
+        this.area.removeEventListener(eventName, listener)
+      );
+    };
+  }
+
+  /**
+   * Destroy the manager and its gestures
+   */
+  private teardownGestures(): void {
+    this.removeEventListeners?.();
+    this.removeEventListeners = null;
+
+    this.gestureManager?.destroy();
+    this.gestureManager = null;
+    this.gestureNames = [];
+  }
+
+  /**
+   * Dispatch a gesture event on the element, keeping the default prevention in sync
+   *
+   * @param event - The gesture event dispatched on the area
+   */
+  private redispatchEvent(event: CustomEvent): void {
+    const redispatched = new CustomEvent(event.type, {
+      bubbles: true,
+      cancelable: event.cancelable,
+      composed: true,
+      detail: event.detail,
+    });
+
+    if (!this.dispatchEvent(redispatched)) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Get the gesture owning an option attribute. When gesture names share a prefix,
+   * like `press` and `pressAndDrag`, the longest name matching the attribute wins.
+   *
+   * @param attributeName - The name of the attribute
+   * @returns The gesture name and the option name, null if the attribute isn't an option
+   */
+  private getAttributeOption(attributeName: string): { gesture: string; option: string } | null {
+    let match: { gesture: string; option: string } | null = null;
+
+    this.gestureNames.forEach(gesture => {
+      const prefix = `${toKebabCase(gesture)}-`;
+      if (!attributeName.startsWith(prefix)) return;
+      if (match && toKebabCase(match.gesture).length > prefix.length) return;
+
+      match = { gesture, option: toCamelCase(attributeName.slice(prefix.length)) };
+    });
+
+    return match;
+  }
+
+  /**
+   * Get the options of a gesture from its attributes
+   *
+   * @param gestureName - The name of the gesture
+   * @returns The options set by the attributes
+   */
+  private getGestureOptions(gestureName: string): Record<string, unknown> {
+    const options: Record<string, unknown> = {};
+
+    Array.from(this.attributes).forEach(attribute => {
+      const attributeOption = this.getAttributeOption(attribute.name);
+      if (attributeOption?.gesture !== gestureName) return;
+
+      options[attributeOption.option] = parseOptionValue(attributeOption.option, attribute.value);
+    });
+
+    return options;
+  }
+
+  /**
+   * Apply the changes of the attributes to the gestures
+   */
+  private handleAttributeChanges = (mutations: MutationRecord[]): void => {
+    if (mutations.some(mutation => mutation.attributeName === 'gestures')) {
+      this.teardownGestures();
+      this.setupGestures();
+      return;
+    }
+
+    const changedGestures = new Set<string>();
+    mutations.forEach(mutation => {
+      const attributeOption = mutation.attributeName
+        ? this.getAttributeOption(mutation.attributeName)
+        : null;
+      if (attributeOption) changedGestures.add(attributeOption.gesture);
+    });
+
+    changedGestures.forEach(gestureName => {
+      this.gestureManager?.setGestureOptions(
+        gestureName,
+        this.area,
+        this.getGestureOptions(gestureName)
+      );
+    });
+  };
+}
+
+/**
+ * Define the `<gesture-area>` custom element, unless it is already defined
+ *
+ * @param tagName - The tag name of the element
+ */
+export function defineGestureArea(tagName = 'gesture-area'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+
+  // A class can only be defined once, so other tag names get their own subclass
+  const elementClass =
+    tagName === 'gesture-area' ? GestureAreaElement : class extends GestureAreaElement {};
+  customElements.define(tagName, elementClass);
+}
@@ -0,0 +1,18 @@
+/**
+ * Custom element for Gesture Events
+ *
+ * Importing this module defines the `<gesture-area>` element, so that plain HTML pages
+ * can use gestures without setup code
+ */
+
+import { defineGestureArea } from './GestureAreaElement';
+
+export { defineGestureArea, GestureAreaElement } from './GestureAreaElement';
+
+defineGestureArea();
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gesture-area': import('./GestureAreaElement').GestureAreaElement;
+  }
+}
@@ -0,0 +1,4 @@
+export { parseList } from './parseList';
+export { parseOptionValue } from './parseOptionValue';
+export { toCamelCase } from './toCamelCase';
+export { toKebabCase } from './toKebabCase';
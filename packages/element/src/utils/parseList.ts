@@ -0,0 +1,9 @@
+/**
+ * Parse a whitespace separated list attribute, like `gestures="pan pinch"`
+ *
+ * @param value - The attribute value
+ * @returns The items of the list, empty if the attribute is missing
+ */
+export function parseList(value: string | null): string[] {
+  return value?.split(/\s+/).filter(item => item.length > 0) ?? [];
+}
@@ -0,0 +1,39 @@
+import { parseList } from './parseList';
+
+/** Options taking a list of values, like `pan-direction="left right"` */
+const LIST_OPTIONS = new Set([
+  'direction',
+  'pointerTypes',
+  'preventIf',
+  'requireFailureOf',
+  'simultaneousWith',
+]);
+
+/**
+ * Parse the value of a gesture option attribute.
+ *
+ * - List options, like `direction`, are split on whitespace
+ * - `modifiers` lists the required modifier keys, like `modifiers="shift ctrl"`
+ * - An empty value or `true` is true, `false` is false, as for boolean attributes
+ * - Numeric values are numbers, anything else is kept as a string
+ *
+ * @param option - The name of the option, in camelCase
+ * @param value - The attribute value
+ * @returns The option value
+ */
+export function parseOptionValue(option: string, value: string): unknown {
+  if (LIST_OPTIONS.has(option)) {
+    return parseList(value);
+  }
+
+  if (option === 'modifiers') {
+    return Object.fromEntries(parseList(value).map(modifier => [modifier, true]));
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+
+  const number = Number(trimmed);
+  return Number.isNaN(number) ? trimmed : number;
+}
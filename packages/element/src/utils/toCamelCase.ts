@@ -0,0 +1,9 @@
+/**
+ * Convert a kebab-case attribute name to camelCase, like `min-pointers` to `minPointers`
+ *
+ * @param name - The kebab-case name
+ * @returns The camelCase name
+ */
+export function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
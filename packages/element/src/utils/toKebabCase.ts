@@ -0,0 +1,9 @@
+/**
+ * Convert a camelCase name to the kebab-case of attributes, like `doubleTap` to `double-tap`
+ *
+ * @param name - The camelCase name
+ * @returns The kebab-case name
+ */
+export function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
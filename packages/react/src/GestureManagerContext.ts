@@ -0,0 +1,54 @@
+import { createContext, createElement, ReactNode, useContext } from 'react';
+import type { AnyGestureManager } from '@web-gestures/core';
+
+/**
+ * The gesture manager shared with the components below a GestureManagerProvider
+ */
+const GestureManagerContext = createContext<AnyGestureManager | null>(null);
+
+/**
+ * Props of the GestureManagerProvider component
+ */
+export type GestureManagerProviderProps = {
+  /** The gesture manager to share with the components below the provider */
+  manager: AnyGestureManager;
+  /** The components that can access the gesture manager */
+  children?: ReactNode;
+};
+
+/**
+ * Share a gesture manager with the components below it, so it doesn't have to be passed down.
+ *
+ * @example
+ * ```tsx
+ * const manager = new GestureManager({ gestures: [new PanGesture({ name: 'pan' })] });
+ *
+ * <GestureManagerProvider manager={manager}>
+ *   <App />
+ * </GestureManagerProvider>
+ * ```
+ */
+export function GestureManagerProvider({ manager, children }: GestureManagerProviderProps) {
+  return createElement(GestureManagerContext.Provider, { value: manager }, children);
+}
+
+/**
+ * Get the gesture manager shared by the closest GestureManagerProvider
+ *
+ * @returns The gesture manager, typed as the manager passed to the provider
+ * @throws If the component isn't rendered below a GestureManagerProvider
+ *
+ * @example
+ * ```tsx
+ * const manager = useGestureManager<typeof gestureManager>();
+ * ```
+ */
+export function useGestureManager<Manager extends AnyGestureManager>(): Manager {
+  const manager = useContext(GestureManagerContext);
+
+  if (!manager) {
+    throw new Error('useGestureManager must be used within a GestureManagerProvider.');
+  }
+
+  return manager as Manager;
+}
@@ -0,0 +1,12 @@
+/**
+ * React bindings for Gesture Events
+ *
+ * Hooks to register gestures on elements and listen to their events with typed handlers
+ */
+
+export { GestureManagerProvider, useGestureManager } from './GestureManagerContext';
+export { useGestures } from './useGestures';
+
+export type { GestureManagerProviderProps } from './GestureManagerContext';
+export type { UseGesturesOptions } from './useGestures';
+export type { AnyGestureManager, GestureEventName, GestureHandlers } from '@web-gestures/core';
@@ -0,0 +1,146 @@
+import type {
+  AnyGestureManager,
+  GestureHandlers,
+  GestureManagerGestureName,
+  GestureManagerOptionsMap,
+  TargetElement,
+} from '@web-gestures/core';
+import { isSameOptions } from '@web-gestures/core';
+import { RefObject, useEffect, useRef } from 'react';
+
+/**
+ * The options of the gestures, by gesture name, and the handlers of their events
+ */
+export type UseGesturesOptions<Manager extends AnyGestureManager, GestureName extends string> = {
+  [K in Extract<
+    GestureName,
+    keyof GestureManagerOptionsMap<Manager>
+  >]?: GestureManagerOptionsMap<Manager>[K];
+} & GestureHandlers<Manager, GestureName>;
+
+type GestureOptionsRecord = Record<string, Record<string, unknown> | undefined>;
+
+type GestureEventHandler = (event: Event) => void;
+
+/**
+ * Whether an option key is an event handler, like `onPanStart`
+ */
+function isHandlerKey(key: string): boolean {
+  return /^on[A-Z]/.test(key);
+}
+
+/**
+ * Get the event name of a handler key, `onPanStart` handles the `panStart` event
+ */
+function getEventName(handlerKey: string): string {
+  return handlerKey.charAt(2).toLowerCase() + handlerKey.slice(3);
+}
+
+/**
+ * Register gestures on the element of a ref while the component is mounted,
+ * and listen to their events with typed handlers.
+ *
+ * The gestures are registered when the component mounts and unregistered when it unmounts.
+ * Changes of the gesture options are applied with `setGestureOptions`, without registering
+ * the gestures again, while changes of the handlers don't touch the gestures at all.
+ * Removing the options of a gesture keeps the last options it received.
+ *
+ * @param manager - The gesture manager with the gesture templates
+ * @param ref - Ref to the element the gestures are registered on
+ * @param gestureNames - The names of the gestures to register
+ * @param options - The options of the gestures, by gesture name, and the event handlers
+ *
+ * @example
+ * ```tsx
+ * function Card() {
+ *   const ref = useRef<HTMLDivElement>(null);
+ *
+ *   useGestures(manager, ref, ['pan', 'pinch'], {
+ *     pan: { threshold: 5 },
+ *     onPanStart: event => console.log('Pan started', event.detail.deltaX),
+ *     onPinch: event => console.log('Pinch scale', event.detail.scale),
+ *   });
+ *
+ *   return <div ref={ref} />;
+ * }
+ * ```
+ */
+export function useGestures<
+  Manager extends AnyGestureManager,
+  GestureName extends GestureManagerGestureName<Manager>,
+>(
+  manager: Manager,
+  ref: RefObject<TargetElement | null>,
+  gestureNames: GestureName[],
+  options: NoInfer<UseGesturesOptions<Manager, GestureName>> = {}
+): void {
+  const optionsRecord = options as GestureOptionsRecord;
+
+  /** The latest options, read by the event listeners when an event is dispatched */
+  const latestOptions = useRef(optionsRecord);
+
+  /** The options last applied to the gestures, by gesture name */
+  const appliedOptions = useRef<GestureOptionsRecord>({});
+
+  const gestureKey = gestureNames.join(',');
+  const handlerKey = Object.keys(optionsRecord).filter(isHandlerKey).join(',');
+
+  useEffect(() => {
+    latestOptions.current = optionsRecord;
+  });
+
+  // Register the gestures when mounting or when the gesture names change
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return undefined;
+
+    const names = gestureKey.split(',');
+    const gestureOptions: GestureOptionsRecord = {};
+    names.forEach(name => {
+      gestureOptions[name] = latestOptions.current[name];
+    });
+
+    manager.registerElement(names, element, gestureOptions);
+    appliedOptions.current = gestureOptions;
+
+    return () => {
+      manager.unregisterAllGestures(element);
+      appliedOptions.current = {};
+    };
+  }, [manager, ref, gestureKey]);
+
+  // Apply the option changes to the registered gestures
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    gestureNames.forEach(name => {
+      const next = optionsRecord[name];
+      if (!next || isSameOptions(appliedOptions.current[name], next)) return;
+
+      manager.setGestureOptions(name, element, next);
+      appliedOptions.current[name] = next;
+    });
+  });
+
+  // Listen to the events of the handlers, calling the latest handlers
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !handlerKey) return undefined;
+
+    const listeners = handlerKey.split(',').map(key => {
+      const listener = (event: Event) => {
+        (latestOptions.current[key] as GestureEventHandler | undefined)?.(event);
+      };
+      return [getEventName(key), listener] as const;
+    });
+
+    listeners.forEach(([eventName, listener]) => element.addEventListener(eventName, listener));
+
+    return () => {
+      listeners.forEach(([eventName, listener]) =>
+        element.removeEventListener(eventName, listener)
+      );
+    };
+  }, [ref, handlerKey]);
+}
@@ -0,0 +1,108 @@
+import type {
+  AnyGestureManager,
+  GestureHandlers,
+  GestureManagerGestureName,
+  GestureManagerOptionsMap,
+  GesturePhase,
+} from '@web-gestures/core';
+import { createEventName } from '@web-gestures/core';
+import { Accessor, createEffect, on, onCleanup } from 'solid-js';
+
+/**
+ * The value of the gesture directive
+ */
+export type GestureDirectiveParameters<
+  Manager extends AnyGestureManager,
+  GestureName extends GestureManagerGestureName<Manager>,
+> = {
+  /** The gesture manager with the gesture templates */
+  manager: Manager;
+  /** The name of the gesture to register */
+  name: GestureName;
+  /** The options of the gesture, applied with `setGestureOptions` when they change */
+  options?: GestureName extends keyof GestureManagerOptionsMap<Manager>
+    ? GestureManagerOptionsMap<Manager>[GestureName]
+    : never;
+} & GestureHandlers<Manager, GestureName>;
+
+declare module 'solid-js' {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace JSX {
+    interface Directives {
+      gesture: GestureDirectiveParameters<AnyGestureManager, string>;
+    }
+  }
+}
+
+type GestureEventHandler = (event: Event) => void;
+
+/** The phases of a gesture, each emitting its own event */
+const GESTURE_PHASES: GesturePhase[] = ['start', 'ongoing', 'end', 'cancel'];
+
+/**
+ * Solid directive registering a gesture on an element while it is mounted,
+ * and calling the handlers of the gesture events for each phase.
+ *
+ * The manager and the gesture name are read once, when the directive runs.
+ * Changes of the options are applied with `setGestureOptions`, without registering
+ * the gesture again, and the latest handlers are called when the events are dispatched.
+ *
+ * Handlers can be typed for a manager with
+ * `satisfies GestureDirectiveParameters<typeof manager, 'pan'>`.
+ *
+ * @param element - The element the gesture is registered on
+ * @param accessor - Accessor of the manager, the name of the gesture, its options and handlers
+ *
+ * @example
+ * ```tsx
+ * import { gesture } from '@web-gestures/solid';
+ *
+ * // Keep the directive from being removed as unused
+ * gesture;
+ *
+ * <div
+ *   use:gesture={{
+ *     manager,
+ *     name: 'pan',
+ *     options: { threshold: threshold() },
+ *     onPanStart: event => console.log('Pan started', event.detail.deltaX),
+ *   }}
+ * />;
+ * ```
+ */
+export function gesture(
+  element: HTMLElement | SVGElement,
+  accessor: Accessor<GestureDirectiveParameters<AnyGestureManager, string>>
+): void {
+  const { manager, name, options } = accessor();
+
+  manager.registerElement(name, element, { [name]: options && { ...options } });
+
+  const listeners = GESTURE_PHASES.map(phase => {
+    const eventName = createEventName(name, phase);
+    const handlerKey = `on${eventName.charAt(0).toUpperCase()}${eventName.slice(1)}`;
+
+    const listener = (event: Event) => {
+      const handlers = accessor() as Record<string, unknown>;
+      (handlers[handlerKey] as GestureEventHandler | undefined)?.(event);
+    };
+    element.addEventListener(eventName, listener);
+    return [eventName, listener] as const;
+  });
+
+  createEffect(
+    on(
+      () => accessor().options,
+      nextOptions => {
+        if (!nextOptions) return;
+        manager.setGestureOptions(name, element, { ...nextOptions });
+      },
+      { defer: true }
+    )
+  );
+
+  onCleanup(() => {
+    listeners.forEach(([eventName, listener]) => element.removeEventListener(eventName, listener));
+    manager.unregisterElement(name, element);
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Solid bindings for Gesture Events
+ *
+ * A directive to register gestures on elements and handle their typed events for each phase
+ */
+
+export { gesture } from './gesture';
+
+export type { GestureDirectiveParameters } from './gesture';
+export type { AnyGestureManager, GestureEventName, GestureHandlers } from '@web-gestures/core';
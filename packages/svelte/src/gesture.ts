@@ -0,0 +1,109 @@
+import type {
+  AnyGestureManager,
+  GestureEventName,
+  GestureManagerEventMap,
+  GestureManagerGestureName,
+  GestureManagerOptionsMap,
+} from '@web-gestures/core';
+import type { ActionReturn } from 'svelte/action';
+
+/**
+ * The parameters of the gesture action
+ */
+export type GestureActionParameters<
+  Manager extends AnyGestureManager,
+  GestureName extends GestureManagerGestureName<Manager>,
+> = {
+  /** The gesture manager with the gesture templates */
+  manager: Manager;
+  /** The name of the gesture to register */
+  name: GestureName;
+  /** The options of the gesture, applied with `setGestureOptions` when they change */
+  options?: GestureName extends keyof GestureManagerOptionsMap<Manager>
+    ? GestureManagerOptionsMap<Manager>[GestureName]
+    : never;
+};
+
+/**
+ * The typed events of the gesture on the element, for each phase of the gesture.
+ * Both the `on:panStart` directive and the `onpanStart` event attribute are typed.
+ */
+export type GestureActionAttributes<
+  Manager extends AnyGestureManager,
+  GestureName extends string,
+> = {
+  [K in GestureEventName<Manager, GestureName> as `on:${K & string}`]?: (
+    event: GestureManagerEventMap<Manager>[K]
+  ) => void;
+} & {
+  [K in GestureEventName<Manager, GestureName> as `on${K & string}`]?: (
+    event: GestureManagerEventMap<Manager>[K]
+  ) => void;
+};
+
+/**
+ * Svelte action registering a gesture on an element while it is mounted.
+ *
+ * The gesture events are dispatched on the element for each phase, like `panStart`, `pan`,
+ * `panEnd` and `panCancel`, and are typed for the element the action is used on.
+ * Changes of the options are applied with `setGestureOptions`, without registering
+ * the gesture again, while changing the manager or the gesture registers it again.
+ *
+ * @param node - The element the gesture is registered on
+ * @param parameters - The manager, the name of the gesture and its options
+ * @returns The action lifecycle
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   import { gesture } from '@web-gestures/svelte';
+ *
+ *   let threshold = 5;
+ * </script>
+ *
+ * <div
+ *   use:gesture={{ manager, name: 'pan', options: { threshold } }}
+ *   on:panStart={event => console.log('Pan started', event.detail.deltaX)}
+ *   on:panEnd={event => console.log('Pan ended', event.detail.totalDeltaX)}
+ * />
+ * ```
+ */
+export function gesture<
+  Manager extends AnyGestureManager,
+  GestureName extends GestureManagerGestureName<Manager>,
+>(
+  node: HTMLElement | SVGElement,
+  parameters: GestureActionParameters<Manager, GestureName>
+): ActionReturn<
+  GestureActionParameters<Manager, GestureName>,
+  GestureActionAttributes<Manager, GestureName>
+> {
+  let current = parameters;
+
+  const register = ({ manager, name, options }: GestureActionParameters<Manager, GestureName>) => {
+    manager.registerElement(name as string, node, { [name]: options && { ...options } });
+  };
+
+  const unregister = ({ manager, name }: GestureActionParameters<Manager, GestureName>) => {
+    manager.unregisterElement(name, node);
+  };
+
+  register(current);
+
+  return {
+    update(next) {
+      if (next.manager !== current.manager || next.name !== current.name) {
+        unregister(current);
+        register(next);
+      } else if (next.options) {
+        next.manager.setGestureOptions(next.name, node, { ...next.options });
+      }
+
+      current = next;
+    },
+
+    destroy() {
+      unregister(current);
+    },
+  };
+}
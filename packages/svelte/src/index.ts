@@ -0,0 +1,10 @@
+/**
+ * Svelte bindings for Gesture Events
+ *
+ * An action to register gestures on elements, with typed events for each gesture phase
+ */
+
+export { gesture } from './gesture';
+
+export type { GestureActionAttributes, GestureActionParameters } from './gesture';
+export type { AnyGestureManager, GestureEventName } from '@web-gestures/core';
@@ -3,9 +3,11 @@ import { MoveSimulator, MoveSimulatorOptions } from './simulators/MoveSimulator'
 import { PanSimulator, PanSimulatorOptions } from './simulators/PanSimulator';
 import { PinchSimulator, PinchSimulatorOptions } from './simulators/PinchSimulator';
 import { PressSimulator, PressSimulatorOptions } from './simulators/PressSimulator';
+import { ReplaySimulator, ReplaySimulatorOptions } from './simulators/ReplaySimulator';
 import { RotateSimulator, RotateSimulatorOptions } from './simulators/RotateSimulator';
 import { TapSimulator, TapSimulatorOptions } from './simulators/TapSimulator';
 import { TurnWheelSimulator, TurnWheelSimulatorOptions } from './simulators/TurnWheelSimulator';
+import { Trace } from './types/Trace';
 
 // TODO: change this to userGesture = new UserGesture()
 // Global configuration that applies to all gesture simulations
@@ -78,10 +80,19 @@ export const userGesture = {
     const simulator = new TurnWheelSimulator({ ...globalConfig, ...options });
     return simulator.simulateTurnWheel();
   },
+
+  /**
+   * Replay a trace recorded with the TraceRecorder of @web-gestures/core
+   */
+  async replay(trace: Trace, options: Omit<ReplaySimulatorOptions, 'trace'>): Promise<void> {
+    const simulator = new ReplaySimulator({ ...globalConfig, ...options, trace });
+    return simulator.simulateReplay();
+  },
 };
 
 // Export types for TypeScript users
 export * from './types/Point';
+export * from './types/Trace';
 
 // Export simulator classes for advanced usage
 export { GestureSimulator } from './GestureSimulator';
@@ -90,6 +101,7 @@ export { MoveSimulator } from './simulators/MoveSimulator';
 export { PanSimulator } from './simulators/PanSimulator';
 export { PinchSimulator } from './simulators/PinchSimulator';
 export { PressSimulator } from './simulators/PressSimulator';
+export { ReplaySimulator } from './simulators/ReplaySimulator';
 export { RotateSimulator } from './simulators/RotateSimulator';
 export { TapSimulator } from './simulators/TapSimulator';
 export { TurnWheelSimulator } from './simulators/TurnWheelSimulator';
@@ -0,0 +1,176 @@
+import { GestureSimulator, GestureSimulatorOptions } from '../GestureSimulator';
+import { Pointer } from '../Pointer';
+import { PointerIdManager } from '../PointerIdManager';
+import { Trace, TRACE_VERSION, TraceEvent, TracePointer } from '../types/Trace';
+
+/**
+ * Options for replaying a recorded trace.
+ */
+export interface ReplaySimulatorOptions extends GestureSimulatorOptions {
+  /**
+   * The trace to replay, as recorded by the `TraceRecorder` of `@web-gestures/core`.
+   */
+  trace: Trace;
+
+  /**
+   * Playback speed multiplier. Values above 1 replay the trace faster than it was recorded.
+   * @default 1
+   */
+  speed?: number;
+
+  /**
+   * The root of the gesture manager of the element, which gets a blur for each recorded
+   * interruption. The host element when the root is a shadow root.
+   * @default document.documentElement
+   */
+  root?: HTMLElement;
+}
+
+/**
+ * Replays a recorded trace on an element for testing.
+ *
+ * Events are dispatched with their original timing, and the recorded pointer ids are
+ * remapped to new ids so replays don't conflict with other simulated pointers.
+ */
+export class ReplaySimulator extends GestureSimulator {
+  private options: ReplaySimulatorOptions;
+  private pointerIdManager: PointerIdManager;
+
+  /** Pointers used to replay the recorded pointers, by recorded pointer id */
+  private pointers: Map<number, Pointer> = new Map();
+
+  constructor(options: ReplaySimulatorOptions) {
+    super(options);
+    this.options = options;
+    this.pointerIdManager = PointerIdManager.getInstance();
+  }
+
+  /**
+   * Replays all the events of the trace.
+   */
+  public async simulateReplay(): Promise<void> {
+    const { trace, speed = 1 } = this.options;
+
+    if (speed <= 0) {
+      throw new Error('Replay speed must be greater than 0.');
+    }
+
+    if (trace.version !== TRACE_VERSION) {
+      throw new Error(
+        `Unsupported trace version ${trace.version}, only version ${TRACE_VERSION} can be replayed.`
+      );
+    }
+
+    let lastTime = 0;
+    for (const event of trace.events) {
+      const wait = (event.time - lastTime) / speed;
+      if (wait > 0) {
+        await this.delay(wait);
+      }
+      lastTime = event.time;
+
+      this.dispatchTraceEvent(event);
+    }
+
+    this.pointers.clear();
+  }
+
+  /**
+   * Dispatches a recorded event on the element.
+   */
+  private dispatchTraceEvent(event: TraceEvent): void {
+    switch (event.kind) {
+      case 'pointer': {
+        const recordedPointer = event.pointers.find(p => p.pointerId === event.pointerId);
+        if (!recordedPointer) return;
+
+        const pointer = this.getPointer(recordedPointer);
+        const position = { x: recordedPointer.x, y: recordedPointer.y };
+        const options: Partial<PointerEventInit> = {
+          isPrimary: recordedPointer.isPrimary,
+          pressure: recordedPointer.pressure,
+          width: recordedPointer.width,
+          height: recordedPointer.height,
+          tiltX: recordedPointer.tiltX,
+          tiltY: recordedPointer.tiltY,
+          twist: recordedPointer.twist,
+          altitudeAngle: recordedPointer.altitudeAngle,
+          azimuthAngle: recordedPointer.azimuthAngle,
+          tangentialPressure: recordedPointer.tangentialPressure,
+          button: recordedPointer.button,
+          buttons: recordedPointer.buttons,
+        };
+
+        if (event.type === 'pointerdown') {
+          pointer.pointerDown(position, options);
+        } else if (event.type === 'pointermove') {
+          pointer.pointerMove(position, options);
+        } else if (event.type === 'pointerup') {
+          pointer.pointerUp(position, options);
+        } else {
+          pointer.dispatchPointerEvent(event.type, position, options);
+        }
+
+        // Released pointers get a new id if the recorded id is used again
+        if (event.type === 'pointerup' || event.type === 'pointercancel') {
+          this.pointers.delete(event.pointerId);
+        }
+        break;
+      }
+
+      case 'wheel': {
+        const rect = this.element.getBoundingClientRect();
+
+        const wheelEvent = new WheelEvent('wheel', {
+          bubbles: true,
+          cancelable: true,
+          view: window,
+          clientX: event.x + rect.left,
+          clientY: event.y + rect.top,
+          deltaX: event.deltaX,
+          deltaY: event.deltaY,
+          deltaZ: event.deltaZ,
+          deltaMode: event.deltaMode,
+        });
+
+        this.element.dispatchEvent(wheelEvent);
+        break;
+      }
+
+      case 'interrupt': {
+        // A blur of the root interrupts all gestures, unlike a contextmenu event which
+        // gestures driven by the secondary button ignore
+        const root = this.options.root ?? document.documentElement;
+        root.dispatchEvent(new FocusEvent('blur'));
+
+        // Interrupted pointers are discarded by the gestures
+        this.pointers.clear();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Gets the pointer replaying a recorded pointer, creating it with a new id if needed.
+   */
+  private getPointer(recordedPointer: TracePointer): Pointer {
+    const existingPointer = this.pointers.get(recordedPointer.pointerId);
+    if (existingPointer) {
+      return existingPointer;
+    }
+
+    const pointerType =
+      recordedPointer.pointerType === 'touch' || recordedPointer.pointerType === 'pen'
+        ? recordedPointer.pointerType
+        : 'mouse';
+
+    // The mouse always uses the same pointer id
+    const pointer =
+      pointerType === 'mouse'
+        ? new Pointer(this.element)
+        : new Pointer(this.element, pointerType, this.pointerIdManager.newPointerId());
+
+    this.pointers.set(recordedPointer.pointerId, pointer);
+    return pointer;
+  }
+}
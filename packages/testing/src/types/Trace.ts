@@ -0,0 +1,89 @@
+/**
+ * Version of the trace format that can be replayed, the `TRACE_VERSION` of `@web-gestures/core`.
+ */
+export const TRACE_VERSION = 1;
+
+/**
+ * Trace recorded by the `TraceRecorder` of `@web-gestures/core`.
+ *
+ * Only the parts of the format needed to replay the trace are described here,
+ * so the testing package doesn't depend on the core package.
+ */
+export interface Trace {
+  /** Version of the trace format */
+  version: number;
+  /** Recorded events, in chronological order */
+  events: TraceEvent[];
+}
+
+/**
+ * Snapshot of a pointer in a trace.
+ */
+export interface TracePointer {
+  /** Identifier of the pointer on the recording device */
+  pointerId: number;
+  /** X-coordinate relative to the left edge of the element */
+  x: number;
+  /** Y-coordinate relative to the top edge of the element */
+  y: number;
+  /** Whether this is the primary pointer in a multi-pointer scenario */
+  isPrimary: boolean;
+  /** Pressure value, ranges from 0 to 1 (1 is maximum pressure) */
+  pressure: number;
+  /** Width of the contact area in CSS pixels */
+  width: number;
+  /** Height of the contact area in CSS pixels */
+  height: number;
+  /** Angle between the Y-Z plane and the plane of the pen and the Y axis, from -90 to 90 degrees */
+  tiltX: number;
+  /** Angle between the X-Z plane and the plane of the pen and the X axis, from -90 to 90 degrees */
+  tiltY: number;
+  /** Clockwise rotation of the pen around its own axis, from 0 to 359 degrees */
+  twist: number;
+  /** Angle between the pen and the surface, from 0 (parallel) to π/2 (perpendicular) radians */
+  altitudeAngle: number;
+  /** Angle of the pen around the Z axis, from 0 to 2π radians, clockwise from the X axis */
+  azimuthAngle: number;
+  /** Pressure on the barrel of the pen, like an airbrush wheel, from -1 to 1 */
+  tangentialPressure: number;
+  /** Indicates the type of pointing device: 'mouse', 'touch', or 'pen' */
+  pointerType: string;
+  /** The button whose state changed with the event: 0 for the primary button, -1 when none */
+  button: number;
+  /** The pressed buttons, as a bitmask: 1 for the primary button, 2 for the secondary button */
+  buttons: number;
+}
+
+/**
+ * Any event recorded in a trace.
+ */
+export type TraceEvent =
+  | {
+      kind: 'pointer';
+      /** Type of pointer event: 'pointerdown', 'pointermove', 'pointerup' or 'pointercancel' */
+      type: string;
+      /** Time in milliseconds since the start of the recording */
+      time: number;
+      /** Identifier of the pointer that triggered the event */
+      pointerId: number;
+      /** Snapshot of all active pointers when the event occurred */
+      pointers: TracePointer[];
+    }
+  | {
+      kind: 'wheel';
+      /** Time in milliseconds since the start of the recording */
+      time: number;
+      /** X-coordinate relative to the left edge of the element */
+      x: number;
+      /** Y-coordinate relative to the top edge of the element */
+      y: number;
+      deltaX: number;
+      deltaY: number;
+      deltaZ: number;
+      deltaMode: number;
+    }
+  | {
+      kind: 'interrupt';
+      /** Time in milliseconds since the start of the recording */
+      time: number;
+    };
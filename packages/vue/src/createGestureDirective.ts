@@ -0,0 +1,150 @@
+import type { ObjectDirective } from 'vue';
+import type {
+  AnyGestureManager,
+  GestureEvent,
+  GestureHandlers,
+  GestureManagerGestureName,
+  GestureManagerOptionsMap,
+} from '@web-gestures/core';
+import { isSameOptions } from '@web-gestures/core';
+import { getGestureEventNames, toRawOptions } from './utils';
+
+/**
+ * The value of the gesture directive, either a handler called for every event of the gesture,
+ * or the options of the gesture and the handlers of its events
+ */
+export type GestureDirectiveValue<Manager extends AnyGestureManager> =
+  | ((event: GestureEvent<Manager, GestureManagerGestureName<Manager>>) => void)
+  | ({
+      /** The options of the gesture, applied again when they change on update */
+      options?: GestureManagerOptionsMap<Manager>[GestureManagerGestureName<Manager>];
+    } & GestureHandlers<Manager, GestureManagerGestureName<Manager>>);
+
+type GestureEventHandler = (event: Event) => void;
+
+/**
+ * A gesture registered on an element by the directive
+ */
+type DirectiveGesture = {
+  /** The latest value of the directive, read when the events are dispatched */
+  value: unknown;
+  /** The options last applied to the gesture */
+  appliedOptions: Record<string, unknown> | undefined;
+  /** Removes the event listeners of the gesture */
+  removeListeners: () => void;
+};
+
+/**
+ * Get the gesture options of a directive value
+ */
+function getOptions(value: unknown): Record<string, unknown> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  return toRawOptions((value as { options?: Record<string, unknown> }).options);
+}
+
+/**
+ * Create a `v-gesture` directive registering the gestures of a manager on elements.
+ * The gesture name is the directive argument, like `v-gesture:pan="handler"`.
+ *
+ * The gesture is registered when the element mounts and unregistered when it unmounts,
+ * so the argument can't be dynamic.
+ * Changes of the options are applied with `setGestureOptions` when the component updates,
+ * without registering the gesture again.
+ *
+ * @param manager - The gesture manager with the gesture templates
+ * @returns The directive, to register with `app.directive('gesture', directive)`
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const vGesture = createGestureDirective(manager);
+ * </script>
+ *
+ * <template>
+ *   <div v-gesture:pan="event => console.log(event.detail.phase, event.detail.deltaX)" />
+ *   <div v-gesture:pinch="{ options: { threshold: 5 }, onPinchEnd: event => save(event) }" />
+ * </template>
+ * ```
+ */
+export function createGestureDirective<Manager extends AnyGestureManager>(
+  manager: Manager
+): ObjectDirective<HTMLElement | SVGElement, GestureDirectiveValue<Manager>> {
+  /** The gestures registered by the directive, by element and gesture name */
+  const elementGestures: WeakMap<Element, Map<string, DirectiveGesture>> = new WeakMap();
+
+  const register = (element: HTMLElement | SVGElement, gestureName: string, value: unknown) => {
+    const appliedOptions = getOptions(value);
+    manager.registerElement(gestureName, element, { [gestureName]: appliedOptions });
+
+    const gesture: DirectiveGesture = { value, appliedOptions, removeListeners: () => {} };
+
+    const listeners = getGestureEventNames(gestureName).map(([eventName, handlerKey]) => {
+      const listener = (event: Event) => {
+        const handler =
+          typeof gesture.value === 'function'
+            ? gesture.value
+            : (gesture.value as Record<string, unknown> | null)?.[handlerKey];
+        (handler as GestureEventHandler | undefined)?.(event);
+      };
+      element.addEventListener(eventName, listener);
+      return [eventName, listener] as const;
+    });
+
+    gesture.removeListeners = () => {
+      listeners.forEach(([eventName, listener]) =>
+        element.removeEventListener(eventName, listener)
+      );
+    };
+
+    const gestures = elementGestures.get(element) ?? new Map<string, DirectiveGesture>();
+    gestures.set(gestureName, gesture);
+    elementGestures.set(element, gestures);
+  };
+
+  const unregister = (element: HTMLElement | SVGElement, gestureName: string) => {
+    const gestures = elementGestures.get(element);
+    const gesture = gestures?.get(gestureName);
+    if (!gestures || !gesture) return;
+
+    gesture.removeListeners();
+    manager.unregisterElement(gestureName, element);
+
+    gestures.delete(gestureName);
+    if (gestures.size === 0) {
+      elementGestures.delete(element);
+    }
+  };
+
+  return {
+    mounted(element, binding) {
+      if (!binding.arg) {
+        console.error(
+          'The gesture directive requires the gesture name as argument, like v-gesture:pan.'
+        );
+        return;
+      }
+
+      register(element, binding.arg, binding.value);
+    },
+
+    updated(element, binding) {
+      if (!binding.arg) return;
+
+      const gesture = elementGestures.get(element)?.get(binding.arg);
+      if (!gesture) return;
+
+      gesture.value = binding.value;
+
+      const options = getOptions(binding.value);
+      if (!options || isSameOptions(gesture.appliedOptions, options)) return;
+
+      manager.setGestureOptions(binding.arg, element, options);
+      gesture.appliedOptions = options;
+    },
+
+    beforeUnmount(element, binding) {
+      if (!binding.arg) return;
+      unregister(element, binding.arg);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Vue bindings for Gesture Events
+ *
+ * A composable and a directive to register gestures on elements and listen to their typed events
+ */
+
+export { createGestureDirective } from './createGestureDirective';
+export { useGesture } from './useGesture';
+
+export type { GestureDirectiveValue } from './createGestureDirective';
+export type { UseGestureOptions } from './useGesture';
+export type {
+  AnyGestureManager,
+  GestureEvent,
+  GestureEventName,
+  GestureHandlers,
+} from '@web-gestures/core';
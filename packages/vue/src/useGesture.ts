@@ -0,0 +1,123 @@
+import type {
+  AnyGestureManager,
+  GestureHandlers,
+  GestureManagerGestureName,
+  GestureManagerOptionsMap,
+  TargetElement,
+} from '@web-gestures/core';
+import { MaybeRefOrGetter, onScopeDispose, toValue, watch } from 'vue';
+import { getGestureEventNames, toRawOptions } from './utils';
+
+/**
+ * The options of a gesture, which can be reactive, and the handlers of its events
+ */
+export type UseGestureOptions<Manager extends AnyGestureManager, GestureName extends string> = {
+  /** The options of the gesture, changes of a ref or reactive object are applied to the gesture */
+  options?: MaybeRefOrGetter<
+    GestureName extends keyof GestureManagerOptionsMap<Manager>
+      ? GestureManagerOptionsMap<Manager>[GestureName]
+      : never
+  >;
+} & GestureHandlers<Manager, GestureName>;
+
+type GestureEventHandler = (event: Event) => void;
+
+/**
+ * Register a gesture on an element while the component is mounted,
+ * and listen to its events with typed handlers.
+ *
+ * The gesture is registered once the element is available, which is after mounting for
+ * template refs, and unregistered when the component unmounts or the element changes.
+ * Changes of the options are applied with `setGestureOptions`, without registering
+ * the gesture again.
+ *
+ * @param manager - The gesture manager with the gesture templates
+ * @param target - The element the gesture is registered on, as a template ref or getter
+ * @param gestureName - The name of the gesture to register
+ * @param options - The options of the gesture and the handlers of its events
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const card = useTemplateRef('card');
+ * const panOptions = reactive({ threshold: 5 });
+ *
+ * useGesture(manager, card, 'pan', {
+ *   options: panOptions,
+ *   onPanStart: event => console.log('Pan started', event.detail.deltaX),
+ * });
+ * </script>
+ *
+ * <template>
+ *   <div ref="card" />
+ * </template>
+ * ```
+ */
+export function useGesture<
+  Manager extends AnyGestureManager,
+  GestureName extends GestureManagerGestureName<Manager>,
+>(
+  manager: Manager,
+  target: MaybeRefOrGetter<TargetElement | null | undefined>,
+  gestureName: GestureName,
+  options: NoInfer<UseGestureOptions<Manager, GestureName>> = {}
+): void {
+  const handlers = options as Record<string, GestureEventHandler | undefined>;
+
+  /** The element the gesture is registered on, null when it isn't registered */
+  let registeredElement: TargetElement | null = null;
+
+  /** Removes the event listeners of the registered element */
+  let removeListeners: (() => void) | null = null;
+
+  const unregister = () => {
+    if (!registeredElement) return;
+
+    removeListeners?.();
+    removeListeners = null;
+    manager.unregisterElement(gestureName, registeredElement);
+    registeredElement = null;
+  };
+
+  const register = (element: TargetElement) => {
+    manager.registerElement(gestureName as string, element, {
+      [gestureName]: toRawOptions(toValue(options.options)),
+    });
+    registeredElement = element;
+
+    // The handlers are read when the events are dispatched, so they can change
+    const listeners = getGestureEventNames(gestureName)
+      .filter(([_, handlerKey]) => handlerKey in options)
+      .map(([eventName, handlerKey]) => {
+        const listener = (event: Event) => handlers[handlerKey]?.(event);
+        element.addEventListener(eventName, listener);
+        return [eventName, listener] as const;
+      });
+
+    removeListeners = () => {
+      listeners.forEach(([eventName, listener]) =>
+        element.removeEventListener(eventName, listener)
+      );
+    };
+  };
+
+  watch(
+    () => toValue(target),
+    element => {
+      unregister();
+      if (element) register(element);
+    },
+    { immediate: true, flush: 'post' }
+  );
+
+  watch(
+    () => toValue(options.options),
+    gestureOptions => {
+      if (!registeredElement || !gestureOptions) return;
+      manager.setGestureOptions(gestureName, registeredElement, toRawOptions(gestureOptions));
+    },
+    { deep: true }
+  );
+
+  onScopeDispose(unregister);
+}
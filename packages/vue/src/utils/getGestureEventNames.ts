@@ -0,0 +1,13 @@
+/**
+ * Get the names of the events a gesture can emit, with the handler key of each.
+ * Single phase gestures only emit the event named after them, the other names are never emitted.
+ *
+ * @param gestureName - The name of the gesture
+ * @returns The event names, paired with their handler key, like `panStart` and `onPanStart`
+ */
+export function getGestureEventNames(gestureName: string): Array<[string, string]> {
+  return ['Start', '', 'End', 'Cancel'].map(suffix => {
+    const eventName = `${gestureName}${suffix}`;
+    return [eventName, `on${eventName.charAt(0).toUpperCase()}${eventName.slice(1)}`];
+  });
+}
@@ -0,0 +1,2 @@
+export { getGestureEventNames } from './getGestureEventNames';
+export { toRawOptions } from './toRawOptions';
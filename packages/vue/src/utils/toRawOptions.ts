@@ -0,0 +1,19 @@
+import { toRaw } from 'vue';
+
+/**
+ * Get a plain copy of gesture options, which can be a reactive object.
+ * Array options, like `direction`, are copied as well.
+ *
+ * @param options - The options of the gesture
+ * @returns The options, without the reactive proxies
+ */
+export function toRawOptions<T>(options: T): T {
+  if (!options || typeof options !== 'object') return options;
+
+  const rawOptions = { ...toRaw(options) } as Record<string, unknown>;
+  Object.keys(rawOptions).forEach(key => {
+    const value = toRaw(rawOptions[key]);
+    rawOptions[key] = Array.isArray(value) ? [...value] : value;
+  });
+  return rawOptions as T;
+}
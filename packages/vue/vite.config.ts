@@ -0,0 +1,28 @@
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vite';
+
+const __dirname = fileURLToPath(new URL('.', import.meta.url));
+
+export default defineConfig({
+  build: {
+    lib: {
+      entry: resolve(__dirname, './src/index.ts'),
+      name: 'WebGestures_Vue',
+      fileName: 'index',
+    },
+    outDir: 'dist',
+    sourcemap: true,
+    emptyOutDir: true,
+    rollupOptions: {
+      external: ['vue', '@web-gestures/core'],
+      output: {
+        exports: 'named',
+        globals: {
+          vue: 'Vue',
+          '@web-gestures/core': 'WebGestures_Core',
+        },
+      },
+    },
+  },
+});